@@ -87,6 +87,7 @@ const project = new awscdk.AwsCdkConstructLibrary({
 
   devDeps: [
     `@aws-sdk/client-acm@${awsSdkVersion}`,
+    `@aws-sdk/client-lambda@${awsSdkVersion}`,
     `@aws-sdk/client-route-53@${awsSdkVersion}`,
     `@aws-sdk/client-sts@${awsSdkVersion}`,
     `@aws-sdk/types@${awsSdkVersion}`,
@@ -97,7 +98,7 @@ const project = new awscdk.AwsCdkConstructLibrary({
 })
 
 project.eslint?.addRules({
-  'import/no-extraneous-dependencies': ['error', { devDependencies: ['src/**/*.lambda.ts'] }],
+  'import/no-extraneous-dependencies': ['error', { devDependencies: ['src/**/*.lambda.ts', 'test/**'] }],
 })
 
 new NpmConfig(project, { registry: 'https://registry.npmjs.org/' })
@@ -8,59 +8,392 @@ import {
   DeleteCertificateCommandInput,
   DescribeCertificateCommand,
   DescribeCertificateCommandInput,
+  DomainValidation,
+  KeyAlgorithm,
+  ListCertificatesCommandInput,
+  ListTagsForCertificateCommand,
+  ListTagsForCertificateCommandInput,
+  paginateListCertificates,
+  RemoveTagsFromCertificateCommand,
+  RemoveTagsFromCertificateCommandInput,
   RequestCertificateCommand,
   RequestCertificateCommandInput,
-  waitUntilCertificateValidated,
+  ResourceNotFoundException,
+  UpdateCertificateOptionsCommand,
+  UpdateCertificateOptionsCommandInput,
+  ValidationMethod,
 } from '@aws-sdk/client-acm'
+import { InvokeCommand, InvokeCommandInput, LambdaClient } from '@aws-sdk/client-lambda'
 import {
   ChangeAction,
   ChangeResourceRecordSetsCommand,
   ChangeResourceRecordSetsCommandInput,
   InvalidChangeBatch,
+  ListResourceRecordSetsCommand,
   ResourceRecordSet,
   Route53Client,
   waitUntilResourceRecordSetsChanged,
 } from '@aws-sdk/client-route-53'
 import { AssumeRoleCommand, AssumeRoleCommandInput, STSClient } from '@aws-sdk/client-sts'
 import type { AwsCredentialIdentity, Provider } from '@aws-sdk/types'
-import type { CloudFormationCustomResourceEvent } from 'aws-lambda'
+import type { CloudFormationCustomResourceEvent, CloudFormationCustomResourceSuccessResponse } from 'aws-lambda'
+import type { ValidationRecordFunctionEvent } from './dns-validated-certificate'
 import {
+  arnRegion,
   cleanChangeId,
   cleanDomainName,
   containsSame,
+  DEFAULT_TIMEOUTS,
+  diffTags,
+  DRIFT_METRIC_NAME,
+  isNameInZone,
+  MAX_RESPONSE_BYTES,
+  METRIC_NAMESPACE,
   objectToString,
   orderBySignificance,
+  RENEWAL_FAILED_METRIC_NAME,
+  RENEWAL_PENDING_VALIDATION_METRIC_NAME,
+  sharesValidationDomain,
   stringToBoolean,
   tryFor,
+  regionalArnAttribute,
+  REQUESTABLE_KEY_ALGORITHMS,
+  RESPONSE_ENVELOPE_BYTES,
+  SESSION_NAME_PATTERN,
+  validationRecordAttribute,
 } from './utils'
 
 export type ValidationHostedZoneProperties = {
   DomainName: string
-  HostedZoneId: string
+  HostedZoneId?: string
   ValidationRoleArn?: string
   ValidationExternalId?: string
+  ValidationRoleChain?: string[]
+  ValidationSessionName?: string
+  ValidationSessionTags?: Record<string, string>
+  ValidationSessionPolicy?: string
+  /** Stringified boolean given instead of the session policy in reconcile events to keep them small */
+  ValidationRecordSessionPolicy?: string
+  ValidationFunctionArn?: string
 }
 
 export type Properties = {
   DomainName: string
   AlternativeDomainNames?: string[]
   ValidationHostedZones: Record<string, ValidationHostedZoneProperties>
+  ValidationMethod?: string
+  ValidationDomains?: Record<string, string>
   CertificateRegion: string
+  AdditionalCertificateRegions?: string[]
+  CertificateAuthorityArn?: string
   CleanupValidationRecords: string
+  CleanupFailedCertificate: string
   TransparencyLoggingEnabled: string
+  KeyAlgorithm?: string
+  AdoptExisting?: string
+  AdoptionTags?: Record<string, string>
   Tags?: Record<string, string>
   RemovalPolicy: string
+  ReplacementRemovalPolicy: string
+  RecordReferenceRegions?: string[]
+  ValidationRecordsTimeout?: string
+  RecordSyncTimeout?: string
+  ValidationTimeout?: string
+  UsageDrainTimeout?: string
+  MaxPollingInterval?: string
 }
 
-type Route53Factory = (roleArn: string | undefined, externalId: string | undefined) => Route53Client
+type Timeouts = typeof DEFAULT_TIMEOUTS
 
-const parseProperties = (properties: Record<string, any>): Properties => {
-  // maybe should actually parse and not just assume
-  return properties as unknown as Properties
+/**
+ * Completion check to perform asynchronously after the onEvent invocation. The provider framework merges the onEvent
+ * response into the isComplete event, which is how the isComplete invocations are recognized.
+ */
+type CompletionCheck = 'Validation' | 'Deletion' | 'None'
+
+/**
+ * The certificates requested by the event, the only ones deleted when the validation fails. Adopted certificates and
+ * the ones of earlier deployments are left alone.
+ */
+type RequestedCertificates = {
+  RequestedCertificateArns?: string
+}
+
+type OnEventResponse = Pick<CloudFormationCustomResourceSuccessResponse, 'PhysicalResourceId' | 'Data'> &
+  RequestedCertificates & {
+    CompletionCheck?: CompletionCheck
+  }
+
+type IsCompleteEvent = CloudFormationCustomResourceEvent &
+  RequestedCertificates & {
+    PhysicalResourceId: string
+    CompletionCheck: CompletionCheck
+  }
+
+type IsCompleteResponse = {
+  IsComplete: boolean
+  Data?: Record<string, string>
+}
+
+/**
+ * Scheduled event to verify that the validation records of the certificates still exist and to restore the missing
+ * ones, so that ACM managed renewal keeps working. The managed renewal status is published as metrics. The event
+ * carries only the properties needed for the records, as the input of a rule target is limited to 8192 characters.
+ */
+type ReconcileEvent = {
+  RequestType: 'Reconcile'
+  PhysicalResourceId: string
+  ResourceProperties: Record<string, unknown>
+}
+
+type RecordWriter = (action: ChangeAction, records: ResourceRecordSet[]) => Promise<void>
+
+type RecordWriterFactory = (hostedZone: ValidationHostedZoneProperties) => RecordWriter
+
+/** Returns the current record set with the name and type of the given record, if there is one */
+type RecordReader = (record: ResourceRecordSet) => Promise<ResourceRecordSet | undefined>
+
+/** Returns undefined for zones whose records cannot be read, like the ones managed by a record function */
+type RecordReaderFactory = (hostedZone: ValidationHostedZoneProperties) => RecordReader | undefined
+
+const ROLE_ARN_PATTERN = /^arn:aws[a-z-]*:iam::\d{12}:role\/.+$/
+const FUNCTION_ARN_PATTERN = /^arn:aws[a-z-]*:lambda:[a-z0-9-]+:\d{12}:function:[A-Za-z0-9_-]+(:[A-Za-z0-9_$-]+)?$/
+const CERTIFICATE_ARN_PATTERN = /^arn:aws[a-z-]*:acm:[a-z0-9-]+:\d{12}:certificate\/.+$/
+const CERTIFICATE_AUTHORITY_ARN_PATTERN = /^arn:aws[a-z-]*:acm-pca:[a-z0-9-]+:\d{12}:certificate-authority\/.+$/
+const DEFAULT_SESSION_NAME = 'CertificateRequestor'
+const REMOVAL_POLICIES = ['destroy', 'retain', 'snapshot', 'retain-on-update-or-delete']
+
+const SUPERSEDED_BY_TAG = 'DnsValidatedCertificate:SupersededBy'
+const SUPERSEDED_AT_TAG = 'DnsValidatedCertificate:SupersededAt'
+const REPLACEMENT_REMOVAL_POLICY_TAG = 'DnsValidatedCertificate:ReplacementRemovalPolicy'
+const SUPERSEDES_TAG_PREFIX = 'DnsValidatedCertificate:Supersedes:'
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+
+const isStringRecord = (value: unknown): value is Record<string, string> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isString)
+}
+
+const parseValidationHostedZone = (key: string, value: unknown, errors: string[]): void => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    errors.push(`ValidationHostedZones.${key} must be an object`)
+    return
+  }
+  const zone = value as Record<string, unknown>
+  if (!isString(zone.DomainName) || zone.DomainName !== key) {
+    errors.push(`ValidationHostedZones.${key}.DomainName must be ${key}`)
+  }
+  if (zone.HostedZoneId !== undefined && (!isString(zone.HostedZoneId) || zone.HostedZoneId.length === 0)) {
+    errors.push(`ValidationHostedZones.${key}.HostedZoneId must be a non-empty string`)
+  }
+  if ((zone.HostedZoneId === undefined) === (zone.ValidationFunctionArn === undefined)) {
+    errors.push(`ValidationHostedZones.${key} must have either HostedZoneId or ValidationFunctionArn`)
+  }
+  if (
+    zone.ValidationRoleArn !== undefined &&
+    !(isString(zone.ValidationRoleArn) && ROLE_ARN_PATTERN.test(zone.ValidationRoleArn))
+  ) {
+    errors.push(`ValidationHostedZones.${key}.ValidationRoleArn is not a valid IAM role ARN: ${zone.ValidationRoleArn}`)
+  }
+  if (zone.ValidationExternalId !== undefined && !isString(zone.ValidationExternalId)) {
+    errors.push(`ValidationHostedZones.${key}.ValidationExternalId must be a string`)
+  }
+  const roleChain = zone.ValidationRoleChain
+  if (
+    roleChain !== undefined &&
+    !(Array.isArray(roleChain) && roleChain.every((arn) => isString(arn) && ROLE_ARN_PATTERN.test(arn)))
+  ) {
+    errors.push(`ValidationHostedZones.${key}.ValidationRoleChain must be a list of IAM role ARNs`)
+  }
+  if (
+    zone.ValidationSessionName !== undefined &&
+    !(isString(zone.ValidationSessionName) && SESSION_NAME_PATTERN.test(zone.ValidationSessionName))
+  ) {
+    errors.push(`ValidationHostedZones.${key}.ValidationSessionName is not a valid role session name`)
+  }
+  if (zone.ValidationSessionTags !== undefined && !isStringRecord(zone.ValidationSessionTags)) {
+    errors.push(`ValidationHostedZones.${key}.ValidationSessionTags must be an object with string values`)
+  }
+  if (zone.ValidationSessionPolicy !== undefined && !isString(zone.ValidationSessionPolicy)) {
+    errors.push(`ValidationHostedZones.${key}.ValidationSessionPolicy must be a string`)
+  }
+  if (
+    zone.ValidationRecordSessionPolicy !== undefined &&
+    !['true', 'false'].includes(zone.ValidationRecordSessionPolicy as string)
+  ) {
+    errors.push(`ValidationHostedZones.${key}.ValidationRecordSessionPolicy must be one of true, false`)
+  }
+  const sessionOptions = [
+    'ValidationRoleChain',
+    'ValidationSessionName',
+    'ValidationSessionTags',
+    'ValidationSessionPolicy',
+    'ValidationRecordSessionPolicy',
+  ]
+  if (zone.ValidationRoleArn === undefined && sessionOptions.some((option) => zone[option] !== undefined)) {
+    errors.push(`ValidationHostedZones.${key} requires ValidationRoleArn with ${sessionOptions.join(', ')}`)
+  }
+  if (
+    zone.ValidationFunctionArn !== undefined &&
+    !(isString(zone.ValidationFunctionArn) && FUNCTION_ARN_PATTERN.test(zone.ValidationFunctionArn))
+  ) {
+    errors.push(
+      `ValidationHostedZones.${key}.ValidationFunctionArn is not a valid Lambda function ARN: ${zone.ValidationFunctionArn}`
+    )
+  }
+}
+
+/**
+ * Parses the custom resource properties, failing with all the problems found. Every domain name must belong to a
+ * validation hosted zone with DNS validation, so the validation records can be written before any certificate is
+ * requested.
+ */
+export const parseProperties = (properties: Record<string, unknown>): Properties => {
+  const errors: string[] = []
+  const requireString = (name: string) => {
+    const value = properties[name]
+    if (!isString(value) || value.length === 0) {
+      errors.push(`${name} must be a non-empty string`)
+    }
+  }
+  const optionalOneOf = (name: string, allowed: string[]) => {
+    const value = properties[name]
+    if (value !== undefined && !(isString(value) && allowed.includes(value))) {
+      errors.push(`${name} must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`)
+    }
+  }
+  const optionalStringRecord = (name: string) => {
+    const value = properties[name]
+    if (value !== undefined && !isStringRecord(value)) {
+      errors.push(`${name} must be an object with string values`)
+    }
+  }
+  const optionalStringList = (name: string) => {
+    const value = properties[name]
+    if (value !== undefined && !(Array.isArray(value) && value.every((item) => isString(item) && item.length > 0))) {
+      errors.push(`${name} must be a list of non-empty strings`)
+    }
+  }
+  const optionalSeconds = (name: string) => {
+    const value = properties[name]
+    if (value !== undefined && !(isString(value) && /^\d+$/.test(value) && Number(value) > 0)) {
+      errors.push(`${name} must be a positive number of seconds, got ${JSON.stringify(value)}`)
+    }
+  }
+
+  requireString('DomainName')
+  requireString('CertificateRegion')
+  optionalStringList('AlternativeDomainNames')
+  optionalStringList('AdditionalCertificateRegions')
+  optionalStringList('RecordReferenceRegions')
+  optionalOneOf('ValidationMethod', ['DNS', 'EMAIL'])
+  optionalOneOf('KeyAlgorithm', REQUESTABLE_KEY_ALGORITHMS)
+  const certificateAuthorityArn = properties.CertificateAuthorityArn
+  if (
+    certificateAuthorityArn !== undefined &&
+    !(isString(certificateAuthorityArn) && CERTIFICATE_AUTHORITY_ARN_PATTERN.test(certificateAuthorityArn))
+  ) {
+    errors.push(`CertificateAuthorityArn is not a valid certificate authority ARN: ${certificateAuthorityArn}`)
+  }
+  optionalStringRecord('ValidationDomains')
+  optionalOneOf('CleanupValidationRecords', ['true', 'false'])
+  optionalOneOf('CleanupFailedCertificate', ['true', 'false'])
+  optionalOneOf('TransparencyLoggingEnabled', ['true', 'false'])
+  optionalOneOf('AdoptExisting', ['true', 'false'])
+  optionalStringRecord('AdoptionTags')
+  optionalStringRecord('Tags')
+  optionalOneOf('RemovalPolicy', REMOVAL_POLICIES)
+  optionalOneOf('ReplacementRemovalPolicy', REMOVAL_POLICIES)
+  optionalSeconds('ValidationRecordsTimeout')
+  optionalSeconds('RecordSyncTimeout')
+  optionalSeconds('ValidationTimeout')
+  optionalSeconds('UsageDrainTimeout')
+  optionalSeconds('MaxPollingInterval')
+
+  const validationHostedZones = properties.ValidationHostedZones ?? {}
+  if (
+    typeof validationHostedZones !== 'object' ||
+    validationHostedZones === null ||
+    Array.isArray(validationHostedZones)
+  ) {
+    errors.push('ValidationHostedZones must be an object keyed by zone name')
+  } else {
+    Object.entries(validationHostedZones).forEach(([key, value]) => parseValidationHostedZone(key, value, errors))
+    if (properties.ValidationMethod !== 'EMAIL' && certificateAuthorityArn === undefined && errors.length === 0) {
+      const zoneNames = Object.keys(validationHostedZones)
+      const domainNames = [
+        properties.DomainName as string,
+        ...((properties.AlternativeDomainNames as string[] | undefined) ?? []),
+      ]
+      if (zoneNames.length === 0) {
+        errors.push('ValidationHostedZones must not be empty with DNS validation')
+      }
+      domainNames
+        .filter((domainName) => !zoneNames.some((zoneName) => isNameInZone(domainName, zoneName)))
+        .forEach((domainName) =>
+          errors.push(`Domain ${domainName} does not belong to any of the validation hosted zones`)
+        )
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid certificate properties: ${errors.join('; ')}`)
+  }
+  return {
+    ...properties,
+    ValidationHostedZones: validationHostedZones,
+    CleanupValidationRecords: properties.CleanupValidationRecords ?? 'true',
+    CleanupFailedCertificate: properties.CleanupFailedCertificate ?? 'true',
+    TransparencyLoggingEnabled: properties.TransparencyLoggingEnabled ?? 'true',
+    RemovalPolicy: properties.RemovalPolicy ?? 'destroy',
+    ReplacementRemovalPolicy: properties.ReplacementRemovalPolicy ?? properties.RemovalPolicy ?? 'destroy',
+  } as Properties
+}
+
+const parseTimeouts = (properties: Properties): Timeouts => {
+  const seconds = (value: string | undefined, defaultValue: number) => (value ? Number(value) : defaultValue)
+  return {
+    validationRecords: seconds(properties.ValidationRecordsTimeout, DEFAULT_TIMEOUTS.validationRecords),
+    recordSync: seconds(properties.RecordSyncTimeout, DEFAULT_TIMEOUTS.recordSync),
+    validation: seconds(properties.ValidationTimeout, DEFAULT_TIMEOUTS.validation),
+    usageDrain: seconds(properties.UsageDrainTimeout, DEFAULT_TIMEOUTS.usageDrain),
+    maxPollingInterval: seconds(properties.MaxPollingInterval, DEFAULT_TIMEOUTS.maxPollingInterval),
+  }
+}
+
+const parseValidationMethod = (properties: Properties): ValidationMethod => {
+  return properties.ValidationMethod === 'EMAIL' ? 'EMAIL' : 'DNS'
+}
+
+const isPrivate = (properties: Properties): boolean => {
+  return properties.CertificateAuthorityArn !== undefined
+}
+
+const usesDnsValidation = (properties: Properties): boolean => {
+  return !isPrivate(properties) && parseValidationMethod(properties) === 'DNS'
+}
+
+const parseKeyAlgorithm = (properties: Properties): KeyAlgorithm => {
+  return (properties.KeyAlgorithm ?? REQUESTABLE_KEY_ALGORITHMS[0]) as KeyAlgorithm
+}
+
+const parseCertificateArns = (physicalResourceId: string): string[] => {
+  return physicalResourceId.split(',')
+}
+
+const certificateRegions = (properties: Properties): string[] => {
+  return [...new Set([properties.CertificateRegion, ...(properties.AdditionalCertificateRegions ?? [])])]
+}
+
+const acmClient = (region: string): ACMClient => {
+  return new ACMClient({ region, retryMode: 'adaptive' })
 }
 
 const parseDomainValidationRecords = (certificate: CertificateDetail): ResourceRecordSet[] | null => {
-  const options = certificate.DomainValidationOptions ?? []
+  return parseValidationRecords(certificate.DomainValidationOptions ?? [])
+}
+
+const parseValidationRecords = (options: DomainValidation[]): ResourceRecordSet[] | null => {
   if (options.length > 0 && options.every((opt) => opt.ResourceRecord?.Name)) {
     const uniqueRecords = [...new Map(options.map((opt) => [opt.ResourceRecord?.Name!, opt.ResourceRecord!])).values()]
     return uniqueRecords.map((record) => {
@@ -83,7 +416,8 @@ const changeRecordSets = async (
   route53: Route53Client,
   action: ChangeAction,
   records: ResourceRecordSet[],
-  hostedZoneId: string
+  hostedZoneId: string,
+  maxWaitSeconds: number
 ): Promise<void> => {
   const changeRecordSetsInput: ChangeResourceRecordSetsCommandInput = {
     HostedZoneId: hostedZoneId,
@@ -97,7 +431,10 @@ const changeRecordSets = async (
   try {
     const { ChangeInfo } = await route53.send(new ChangeResourceRecordSetsCommand(changeRecordSetsInput))
     const changeId = ChangeInfo?.Id!
-    const result = await waitUntilResourceRecordSetsChanged({ client: route53, maxWaitTime: 180 }, { Id: changeId })
+    const result = await waitUntilResourceRecordSetsChanged(
+      { client: route53, maxWaitTime: maxWaitSeconds },
+      { Id: changeId }
+    )
     if (result.state !== 'SUCCESS') {
       throw new Error(
         `Validation records never changed for hosted zone ${hostedZoneId}: [${result.state}] ${result.reason ?? ''}`
@@ -116,6 +453,35 @@ const changeRecordSets = async (
   }
 }
 
+const invokeValidationRecordFunction = async (
+  lambda: LambdaClient,
+  functionArn: string,
+  action: ChangeAction,
+  records: ResourceRecordSet[],
+  zoneName: string
+): Promise<void> => {
+  const event: ValidationRecordFunctionEvent = {
+    action,
+    zoneName,
+    records: records.map((record) => ({
+      name: record.Name!,
+      type: record.Type!,
+      value: record.ResourceRecords?.[0]?.Value!,
+    })),
+  }
+  const invokeInput: InvokeCommandInput = {
+    FunctionName: functionArn,
+    Payload: JSON.stringify(event),
+  }
+  const { FunctionError, Payload } = await lambda.send(new InvokeCommand(invokeInput))
+  if (FunctionError) {
+    const response = Payload ? Buffer.from(Payload).toString() : ''
+    throw new Error(`Validation record function ${functionArn} failed for zone ${zoneName}: ${response}`)
+  }
+  const operation = action === 'CREATE' || action === 'UPSERT' ? 'changed' : 'deleted'
+  console.log(`Validation records successfully ${operation} for zone ${zoneName} with function ${functionArn}`)
+}
+
 const getRecordsForZoneNames = (
   records: ResourceRecordSet[],
   zoneNames: string[],
@@ -129,7 +495,7 @@ const getRecordsForZoneNames = (
   const unmatchingRecords: ResourceRecordSet[] = []
   for (const record of records) {
     const normalizedRecordName = cleanDomainName(record.Name!)
-    if (normalizedRecordName === zoneName || normalizedRecordName.endsWith('.' + zoneName)) {
+    if (isNameInZone(normalizedRecordName, zoneName)) {
       matchingRecords.push(record)
     } else {
       unmatchingRecords.push(record)
@@ -141,41 +507,113 @@ const getRecordsForZoneNames = (
   })
 }
 
-const requestCertificate = async (
-  acm: ACMClient,
-  route53: Route53Factory,
-  requestId: string,
+const zoneIdentifier = (hostedZone: ValidationHostedZoneProperties): string => {
+  return hostedZone.HostedZoneId ?? hostedZone.DomainName
+}
+
+const changeValidationRecords = async (
+  writers: RecordWriterFactory,
+  action: ChangeAction,
+  validationRecords: ResourceRecordSet[],
   properties: Properties
-): Promise<string> => {
-  const { DomainName, AlternativeDomainNames, TransparencyLoggingEnabled } = properties
+): Promise<void> => {
+  const recordsForZoneNames = getRecordsForZoneNames(
+    validationRecords,
+    orderBySignificance(Object.keys(properties.ValidationHostedZones))
+  )
+  const zonedRecords = Object.values(recordsForZoneNames).flat()
+  const unzonedRecords = validationRecords.filter((record) => !zonedRecords.includes(record))
+  if (unzonedRecords.length > 0) {
+    const names = unzonedRecords.map((record) => record.Name).join(', ')
+    throw new Error(`Validation record(s) ${names} do not belong to any of the validation hosted zones`)
+  }
+  for (const hostedZone of Object.values(properties.ValidationHostedZones)) {
+    const records = recordsForZoneNames[hostedZone.DomainName] ?? []
+    if (records.length > 0) {
+      await writers(hostedZone)(action, records)
+    }
+  }
+}
+
+/** Returns the ACM transparency logging preference for the stringified boolean property */
+export const transparencyLoggingPreference = (transparencyLoggingEnabled: string) => {
+  return stringToBoolean(transparencyLoggingEnabled) ? 'ENABLED' : 'DISABLED'
+}
+
+const requestCertificate = async (acm: ACMClient, requestId: string, properties: Properties): Promise<string> => {
+  const { DomainName, AlternativeDomainNames, TransparencyLoggingEnabled, ValidationDomains, CertificateAuthorityArn } =
+    properties
+  const idempotencyToken = crypto.createHash('sha256').update(requestId).digest('hex').slice(0, 32)
+
+  if (CertificateAuthorityArn !== undefined) {
+    console.log(`Requesting private certificate for ${DomainName} from ${CertificateAuthorityArn}`)
+
+    // private certificates are issued directly by the certificate authority without domain validation
+    const { CertificateArn } = await acm.send(
+      new RequestCertificateCommand({
+        DomainName,
+        SubjectAlternativeNames: AlternativeDomainNames,
+        IdempotencyToken: idempotencyToken,
+        CertificateAuthorityArn,
+        KeyAlgorithm: parseKeyAlgorithm(properties),
+      })
+    )
+
+    console.log(`Certificate ${CertificateArn} requested`)
+    return CertificateArn!
+  }
+
+  const validationMethod = parseValidationMethod(properties)
 
   console.log(`Requesting certificate for ${DomainName}`)
 
   const requestCertificateInput: RequestCertificateCommandInput = {
     DomainName,
     SubjectAlternativeNames: AlternativeDomainNames,
-    IdempotencyToken: crypto.createHash('sha256').update(requestId).digest('hex').slice(0, 32),
-    ValidationMethod: 'DNS',
+    IdempotencyToken: idempotencyToken,
+    KeyAlgorithm: parseKeyAlgorithm(properties),
+    ValidationMethod: validationMethod,
+    DomainValidationOptions: ValidationDomains
+      ? Object.entries(ValidationDomains).map(([domainName, validationDomain]) => ({
+          DomainName: domainName,
+          ValidationDomain: validationDomain,
+        }))
+      : undefined,
     Options: {
-      CertificateTransparencyLoggingPreference: TransparencyLoggingEnabled ? 'ENABLED' : 'DISABLED',
+      CertificateTransparencyLoggingPreference: transparencyLoggingPreference(TransparencyLoggingEnabled),
     },
   }
   const { CertificateArn } = await acm.send(new RequestCertificateCommand(requestCertificateInput))
 
   console.log(`Certificate ${CertificateArn} requested`)
+  return CertificateArn!
+}
 
-  const validationMaxSeconds = 180
+const upsertValidationRecords = async (
+  writers: RecordWriterFactory,
+  certificateArns: string[],
+  properties: Properties
+): Promise<void> => {
+  const timeouts = parseTimeouts(properties)
+  const validationMaxSeconds = timeouts.validationRecords
   const validationTimeoutError = `Domain validation options were not found in ${validationMaxSeconds} seconds`
-  const validationRecords = await tryFor(validationMaxSeconds, validationTimeoutError, async () => {
-    const describeCertificateInput: DescribeCertificateCommandInput = {
-      CertificateArn,
-    }
-    const { Certificate } = await acm.send(new DescribeCertificateCommand(describeCertificateInput))
-    return parseDomainValidationRecords(Certificate!)
-  })
+  // certificates for the same domain names share the validation records, so each record is upserted only once
+  const validationRecords: ResourceRecordSet[] = []
+  for (const certificateArn of certificateArns) {
+    const acm = acmClient(arnRegion(certificateArn))
+    const records = await tryFor(
+      validationMaxSeconds,
+      validationTimeoutError,
+      async () => {
+        const certificate = await describeCertificate(acm, certificateArn)
+        return parseDomainValidationRecords(certificate)
+      },
+      timeouts.maxPollingInterval
+    )
+    validationRecords.push(...records.filter((record) => !validationRecords.some((r) => r.Name === record.Name)))
+  }
 
-  const hostedZones = Object.values(properties.ValidationHostedZones)
-  const hostedZoneIds = hostedZones.map((zone) => zone.HostedZoneId)
+  const hostedZoneIds = Object.values(properties.ValidationHostedZones).map(zoneIdentifier)
 
   console.log(
     `Upserting ${validationRecords.length} validation record(s) into hosted zone(s) ${hostedZoneIds.join(', ')}:`
@@ -184,77 +622,339 @@ const requestCertificate = async (
     console.log(`${record.Name} ${record.Type} ${record.ResourceRecords?.map((rr) => rr.Value).join(',')}`)
   )
 
-  const recordsForZoneNames = getRecordsForZoneNames(
-    validationRecords,
-    orderBySignificance(Object.keys(properties.ValidationHostedZones))
+  await changeValidationRecords(writers, 'UPSERT', validationRecords, properties)
+}
+
+const isAdoptable = (certificate: CertificateDetail, domainNames: string[], properties: Properties): boolean => {
+  if (certificate.KeyAlgorithm !== parseKeyAlgorithm(properties)) {
+    return false
+  }
+  if (isPrivate(properties)) {
+    return (
+      certificate.Type === 'PRIVATE' &&
+      certificate.CertificateAuthorityArn === properties.CertificateAuthorityArn &&
+      containsSame(certificate.SubjectAlternativeNames ?? [], domainNames)
+    )
+  }
+  const validationMethod = parseValidationMethod(properties)
+  const options = certificate.DomainValidationOptions ?? []
+  return (
+    certificate.Type === 'AMAZON_ISSUED' &&
+    containsSame(certificate.SubjectAlternativeNames ?? [], domainNames) &&
+    options.length > 0 &&
+    options.every((opt) => opt.ValidationMethod === validationMethod)
   )
-  for (const hostedZone of hostedZones) {
-    const records = recordsForZoneNames[hostedZone.DomainName]
-    if (records.length > 0) {
-      await changeRecordSets(
-        route53(hostedZone.ValidationRoleArn, hostedZone.ValidationExternalId),
-        'UPSERT',
-        records,
-        hostedZone.HostedZoneId
+}
+
+const listTags = async (acm: ACMClient, certificateArn: string): Promise<Record<string, string>> => {
+  const listTagsInput: ListTagsForCertificateCommandInput = {
+    CertificateArn: certificateArn,
+  }
+  const { Tags } = await acm.send(new ListTagsForCertificateCommand(listTagsInput))
+  return Object.fromEntries((Tags ?? []).map((tag) => [tag.Key!, tag.Value ?? '']))
+}
+
+const hasTags = async (acm: ACMClient, certificateArn: string, tags: Record<string, string>): Promise<boolean> => {
+  if (Object.keys(tags).length === 0) {
+    return true
+  }
+  const existingTags = await listTags(acm, certificateArn)
+  return Object.entries(tags).every(([key, value]) => existingTags[key] === value)
+}
+
+const adoptCertificate = async (acm: ACMClient, properties: Properties): Promise<string | undefined> => {
+  const { DomainName, AlternativeDomainNames, AdoptionTags } = properties
+  const domainNames = [DomainName, ...(AlternativeDomainNames ?? [])]
+
+  console.log(`Looking for existing certificates to adopt for ${domainNames.join(', ')}`)
+
+  const candidates: CertificateDetail[] = []
+  // certificates with other than RSA_2048 keys are listed only when their key type is included
+  const listCertificatesInput: ListCertificatesCommandInput = {
+    CertificateStatuses: ['ISSUED', 'PENDING_VALIDATION'],
+    Includes: { keyTypes: [parseKeyAlgorithm(properties)] },
+  }
+  for await (const page of paginateListCertificates({ client: acm }, listCertificatesInput)) {
+    for (const summary of page.CertificateSummaryList ?? []) {
+      if (summary.DomainName !== DomainName) {
+        continue
+      }
+      const certificate = await describeCertificate(acm, summary.CertificateArn!)
+      if (
+        isAdoptable(certificate, domainNames, properties) &&
+        (await hasTags(acm, summary.CertificateArn!, AdoptionTags ?? {}))
+      ) {
+        candidates.push(certificate)
+      }
+    }
+  }
+
+  // prefer issued certificates and the ones with the longest validity
+  candidates.sort((a, b) => {
+    if (a.Status !== b.Status) {
+      return a.Status === 'ISSUED' ? -1 : 1
+    }
+    return (b.NotAfter?.getTime() ?? 0) - (a.NotAfter?.getTime() ?? 0)
+  })
+
+  const [adopted] = candidates
+  if (adopted === undefined) {
+    console.log('No existing certificates found to adopt')
+    return undefined
+  }
+  console.log(`Adopting existing certificate ${adopted.CertificateArn} with status ${adopted.Status}`)
+  const preference = transparencyLoggingPreference(properties.TransparencyLoggingEnabled)
+  if (!isPrivate(properties) && adopted.Options?.CertificateTransparencyLoggingPreference !== preference) {
+    await updateCertificateOptions(acm, adopted.CertificateArn!, properties)
+  }
+  return adopted.CertificateArn!
+}
+
+const describeCertificate = async (acm: ACMClient, certificateArn: string): Promise<CertificateDetail> => {
+  const describeCertificateInput: DescribeCertificateCommandInput = {
+    CertificateArn: certificateArn,
+  }
+  const { Certificate } = await acm.send(new DescribeCertificateCommand(describeCertificateInput))
+  return Certificate!
+}
+
+/**
+ * Summarizes the validation status of all domains: failed if any domain failed, pending if any domain is pending and
+ * successful only if all domains are validated.
+ */
+const domainValidationStatus = (certificate: CertificateDetail): string => {
+  const statuses = (certificate.DomainValidationOptions ?? []).map((opt) => opt.ValidationStatus)
+  if (statuses.length === 0) {
+    return ''
+  }
+  if (statuses.includes('FAILED')) {
+    return 'FAILED'
+  }
+  if (statuses.every((status) => status === 'SUCCESS')) {
+    return 'SUCCESS'
+  }
+  return 'PENDING_VALIDATION'
+}
+
+const certificateDetails = (certificate: CertificateDetail): Record<string, string> => {
+  return {
+    NotAfter: certificate.NotAfter?.toISOString() ?? '',
+    NotBefore: certificate.NotBefore?.toISOString() ?? '',
+    Serial: certificate.Serial ?? '',
+    DomainValidationStatus: domainValidationStatus(certificate),
+    KeyAlgorithm: certificate.KeyAlgorithm ?? '',
+    Issuer: certificate.Issuer ?? '',
+  }
+}
+
+/**
+ * Returns the custom resource attributes describing the primary certificate. The validation record attributes are left
+ * out when they would not fit in the custom resource response.
+ */
+export const certificateData = async (
+  certificateArns: string[],
+  properties: Properties
+): Promise<Record<string, string>> => {
+  const [certificateArn] = certificateArns
+  const certificate = await describeCertificate(acmClient(arnRegion(certificateArn)), certificateArn)
+  const data: Record<string, string> = {
+    Arn: certificateArn,
+    ...certificateDetails(certificate),
+  }
+  certificateArns.forEach((arn) => {
+    data[regionalArnAttribute(arnRegion(arn))] = arn
+  })
+  if (usesDnsValidation(properties)) {
+    const recordData: Record<string, string> = {}
+    const domainNames = [properties.DomainName, ...(properties.AlternativeDomainNames ?? [])]
+    domainNames.forEach((domainName, index) => {
+      const option = certificate.DomainValidationOptions?.find((opt) => opt.DomainName === domainName)
+      recordData[validationRecordAttribute(index, 'Name')] = option?.ResourceRecord?.Name ?? ''
+      recordData[validationRecordAttribute(index, 'Type')] = option?.ResourceRecord?.Type ?? ''
+      recordData[validationRecordAttribute(index, 'Value')] = option?.ResourceRecord?.Value ?? ''
+    })
+    // an oversized response fails the deployment, so only the certificates reading the records fail without them
+    const maxDataBytes = MAX_RESPONSE_BYTES - RESPONSE_ENVELOPE_BYTES - certificateArns.join(',').length
+    if (JSON.stringify({ ...data, ...recordData }).length > maxDataBytes) {
+      console.log(
+        `Leaving out the validation record attributes of ${domainNames.length} domain name(s) to keep the response ` +
+          `within ${MAX_RESPONSE_BYTES} bytes`
       )
+    } else {
+      Object.assign(data, recordData)
     }
   }
+  return data
+}
 
-  console.log(`Waiting for certificate ${CertificateArn} to validate`)
-  const result = await waitUntilCertificateValidated({ client: acm, maxWaitTime: 300 }, { CertificateArn })
-  if (result.state !== 'SUCCESS') {
-    throw new Error(`Certificate failed ${CertificateArn} to validate: [${result.state}] ${result.reason ?? ''}`)
+/**
+ * Checks the validation of the certificate, returning whether it is issued. Fails immediately when the certificate or
+ * any of its domains has failed validation, reporting the failed domains and the failure reason from ACM.
+ */
+export const checkValidation = (certificate: CertificateDetail): boolean => {
+  const failedDomains = (certificate.DomainValidationOptions ?? [])
+    .filter((opt) => opt.ValidationStatus === 'FAILED')
+    .map((opt) => opt.DomainName)
+  if (certificate.Status === 'ISSUED') {
+    return true
   }
-  console.log(`Certificate ${CertificateArn} successfully validated`)
-  return CertificateArn!
+  if (certificate.Status === 'PENDING_VALIDATION' && failedDomains.length === 0) {
+    return false
+  }
+  const domains = failedDomains.length > 0 ? ` for domain(s) ${failedDomains.join(', ')}` : ''
+  const reason = certificate.FailureReason ?? 'no failure reason given'
+  throw new Error(
+    `Certificate ${certificate.CertificateArn} failed to validate${domains}: [${certificate.Status}] ${reason}`
+  )
 }
 
-const deleteCertificate = async (
+const waitForValidation = async (acm: ACMClient, certificateArn: string, timeouts: Timeouts): Promise<void> => {
+  console.log(`Waiting for certificate ${certificateArn} to validate`)
+  const validationMaxSeconds = timeouts.validation
+  const validationTimeoutError = `Certificate ${certificateArn} was not validated in ${validationMaxSeconds} seconds`
+  await tryFor(
+    validationMaxSeconds,
+    validationTimeoutError,
+    async () => {
+      const certificate = await describeCertificate(acm, certificateArn)
+      return checkValidation(certificate) ? certificate : null
+    },
+    timeouts.maxPollingInterval
+  )
+  console.log(`Certificate ${certificateArn} successfully validated`)
+}
+
+const isValidated = async (acm: ACMClient, certificateArn: string): Promise<boolean> => {
+  const certificate = await describeCertificate(acm, certificateArn)
+  if (checkValidation(certificate)) {
+    console.log(`Certificate ${certificateArn} successfully validated`)
+    return true
+  }
+  console.log(`Certificate ${certificateArn} is still pending validation`)
+  return false
+}
+
+const cleanupFailedCertificate = async (
   acm: ACMClient,
-  route53: Route53Factory,
+  writers: RecordWriterFactory,
   certificateArn: string,
   properties: Properties
 ): Promise<void> => {
+  if (!stringToBoolean(properties.CleanupFailedCertificate)) {
+    console.log(`Keeping certificate ${certificateArn} that failed to validate`)
+    return
+  }
+  console.log(`Deleting certificate ${certificateArn} that failed to validate`)
+  try {
+    const certificate = await describeCertificate(acm, certificateArn)
+    await deleteCertificate(acm, writers, certificate, properties)
+  } catch (error: unknown) {
+    // the validation failure is the error to report, cleanup is best effort
+    console.log(`Failed to delete certificate ${certificateArn}: ${error}`)
+  }
+}
+
+const describeExistingCertificate = async (
+  acm: ACMClient,
+  certificateArn: string
+): Promise<CertificateDetail | undefined> => {
+  try {
+    return await describeCertificate(acm, certificateArn)
+  } catch (error: unknown) {
+    if (error instanceof ResourceNotFoundException) {
+      console.log(`Certificate ${certificateArn} has already been deleted`)
+      return undefined
+    }
+    throw error
+  }
+}
+
+const waitForUnused = async (
+  acm: ACMClient,
+  certificateArn: string,
+  timeouts: Timeouts
+): Promise<CertificateDetail | undefined> => {
   console.log(`Waiting for certificate ${certificateArn} usage to drain before deletion`)
 
-  const waitUsageMaxSeconds = 600
+  const waitUsageMaxSeconds = timeouts.usageDrain
   const waitUsageTimeoutError = `Certificate was still in use after ${waitUsageMaxSeconds} seconds`
-  const certificate = await tryFor(waitUsageMaxSeconds, waitUsageTimeoutError, async () => {
-    const describeCertificateInput: DescribeCertificateCommandInput = {
-      CertificateArn: certificateArn,
+  const certificate = await tryFor<CertificateDetail | undefined>(
+    waitUsageMaxSeconds,
+    waitUsageTimeoutError,
+    async () => {
+      const current = await describeExistingCertificate(acm, certificateArn)
+      const inUseBy = current?.InUseBy ?? []
+      if (inUseBy.length > 0) {
+        return null
+      }
+      return current
+    },
+    timeouts.maxPollingInterval
+  )
+  if (certificate !== undefined) {
+    console.log('Certificate is unused and will be deleted')
+  }
+  return certificate
+}
+
+/**
+ * Returns the validation record names referenced by other certificates for the same domain names in the certificate
+ * region and the record reference regions. ACM uses the same validation record for a domain name in all certificates
+ * of an account, so a record is deleted only when no other certificate needs it for validation or renewal.
+ */
+const referencedRecordNames = async (certificate: CertificateDetail, properties: Properties): Promise<string[]> => {
+  const domainNames = certificate.SubjectAlternativeNames ?? [certificate.DomainName!]
+  const regions = [...new Set([...certificateRegions(properties), ...(properties.RecordReferenceRegions ?? [])])]
+  const recordNames: string[] = []
+  for (const region of regions) {
+    const regionalAcm = acmClient(region)
+    const listCertificatesInput: ListCertificatesCommandInput = {
+      CertificateStatuses: ['PENDING_VALIDATION', 'ISSUED'],
+      Includes: { keyTypes: keyAlgorithms },
     }
-    const { Certificate } = await acm.send(new DescribeCertificateCommand(describeCertificateInput))
-    const inUseBy = Certificate?.InUseBy ?? []
-    if (inUseBy.length > 0) {
-      return null
+    for await (const page of paginateListCertificates({ client: regionalAcm }, listCertificatesInput)) {
+      for (const summary of page.CertificateSummaryList ?? []) {
+        const summaryNames = [summary.DomainName!, ...(summary.SubjectAlternativeNameSummaries ?? [])]
+        if (
+          summary.CertificateArn === certificate.CertificateArn ||
+          !(summary.HasAdditionalSubjectAlternativeNames || sharesValidationDomain(domainNames, summaryNames))
+        ) {
+          continue
+        }
+        const other = await describeExistingCertificate(regionalAcm, summary.CertificateArn!)
+        recordNames.push(...(other?.DomainValidationOptions ?? []).flatMap((opt) => opt.ResourceRecord?.Name ?? []))
+      }
     }
-    return Certificate!
-  })
-  console.log('Certificate is unused and will be deleted')
+  }
+  return recordNames
+}
 
+const deleteCertificate = async (
+  acm: ACMClient,
+  writers: RecordWriterFactory,
+  certificate: CertificateDetail,
+  properties: Properties,
+  retainedRecordNames: string[] = []
+): Promise<void> => {
+  const certificateArn = certificate.CertificateArn!
   const validationRecords = parseDomainValidationRecords(certificate)
   if (validationRecords && stringToBoolean(properties.CleanupValidationRecords)) {
-    const hostedZones = Object.values(properties.ValidationHostedZones)
-    const hostedZoneIds = hostedZones.map((zone) => zone.HostedZoneId)
-
-    console.log(
-      `Deleting ${validationRecords.length} validation record(s) from hosted zone(s) ${hostedZoneIds.join(', ')}`
-    )
+    const referencedNames = [...retainedRecordNames, ...(await referencedRecordNames(certificate, properties))]
+    const unreferencedRecords = validationRecords.filter((record) => !referencedNames.includes(record.Name!))
+    const hostedZoneIds = Object.values(properties.ValidationHostedZones).map(zoneIdentifier)
 
-    const recordsForZoneNames = getRecordsForZoneNames(
-      validationRecords,
-      orderBySignificance(Object.keys(properties.ValidationHostedZones))
-    )
-    for (const hostedZone of hostedZones) {
-      const records = recordsForZoneNames[hostedZone.DomainName]
-      if (records.length > 0) {
-        await changeRecordSets(
-          route53(hostedZone.ValidationRoleArn, hostedZone.ValidationExternalId),
-          'DELETE',
-          records,
-          hostedZone.HostedZoneId
-        )
-      }
+    if (unreferencedRecords.length < validationRecords.length) {
+      console.log(
+        `Keeping ${
+          validationRecords.length - unreferencedRecords.length
+        } validation record(s) referenced by other certificates`
+      )
+    }
+    if (unreferencedRecords.length > 0) {
+      console.log(
+        `Deleting ${unreferencedRecords.length} validation record(s) from hosted zone(s) ${hostedZoneIds.join(', ')}`
+      )
+      await changeValidationRecords(writers, 'DELETE', unreferencedRecords, properties)
     }
   }
 
@@ -266,6 +966,207 @@ const deleteCertificate = async (
   console.log(`Certificate ${certificateArn} successfully deleted`)
 }
 
+const isDeleted = async (
+  acm: ACMClient,
+  writers: RecordWriterFactory,
+  certificateArn: string,
+  properties: Properties
+): Promise<boolean> => {
+  const { destroy, successorArn } = await deletionPolicy(acm, certificateArn, properties)
+  if (!destroy) {
+    return true
+  }
+  const certificate = await describeExistingCertificate(acm, certificateArn)
+  if (certificate === undefined) {
+    return true
+  }
+  const inUseBy = certificate.InUseBy ?? []
+  if (inUseBy.length > 0) {
+    console.log(`Certificate ${certificateArn} is still in use by ${inUseBy.join(', ')}`)
+    return false
+  }
+  console.log('Certificate is unused and will be deleted')
+  await deleteCertificate(acm, writers, certificate, properties, await successorRecordNames(successorArn))
+  return true
+}
+
+const keyAlgorithms: KeyAlgorithm[] = [
+  'RSA_1024',
+  'RSA_2048',
+  'RSA_3072',
+  'RSA_4096',
+  'EC_prime256v1',
+  'EC_secp384r1',
+  'EC_secp521r1',
+]
+
+/** Returns the tag key of the successor certificate tracking the superseded certificate */
+const supersedesTag = (certificateArn: string): string => {
+  return `${SUPERSEDES_TAG_PREFIX}${certificateArn.split('/').pop()}`
+}
+
+/**
+ * Tags the certificate replaced on update with its successor, the replacement time and the removal policy to apply
+ * when CloudFormation deletes it. The successor is tagged with the replaced certificate and the still existing ones
+ * the replaced certificate tracks, so the superseded certificates are found if their deletion fails.
+ */
+export const markSuperseded = async (
+  acm: ACMClient,
+  certificateArn: string,
+  successorArn: string,
+  properties: Properties
+): Promise<void> => {
+  let tags: Record<string, string>
+  try {
+    tags = await listTags(acm, certificateArn)
+    await addTags(acm, certificateArn, {
+      [SUPERSEDED_BY_TAG]: successorArn,
+      [SUPERSEDED_AT_TAG]: new Date().toISOString(),
+      [REPLACEMENT_REMOVAL_POLICY_TAG]: properties.ReplacementRemovalPolicy,
+    })
+  } catch (error: unknown) {
+    if (error instanceof ResourceNotFoundException) {
+      console.log(`Superseded certificate ${certificateArn} has already been deleted`)
+      return
+    }
+    throw error
+  }
+  // failing to track the superseded certificates must not fail the update after the successor was requested
+  try {
+    const tracked: Record<string, string> = {}
+    for (const [key, predecessorArn] of Object.entries(tags)) {
+      if (
+        key.startsWith(SUPERSEDES_TAG_PREFIX) &&
+        (await describeExistingCertificate(acmClient(arnRegion(predecessorArn)), predecessorArn)) !== undefined
+      ) {
+        tracked[key] = predecessorArn
+      }
+    }
+    await addTags(acmClient(arnRegion(successorArn)), successorArn, {
+      ...tracked,
+      [supersedesTag(certificateArn)]: certificateArn,
+    })
+  } catch (error: unknown) {
+    console.log(`Failed to track superseded certificate ${certificateArn} on ${successorArn}: ${error}`)
+  }
+}
+
+/**
+ * Resolves whether the certificate should be destroyed on deletion. Superseded certificates follow the replacement
+ * removal policy they were tagged with, other certificates follow the removal policy.
+ */
+const deletionPolicy = async (
+  acm: ACMClient,
+  certificateArn: string,
+  properties: Properties
+): Promise<{ destroy: boolean; successorArn?: string }> => {
+  let tags: Record<string, string>
+  try {
+    tags = await listTags(acm, certificateArn)
+  } catch (error: unknown) {
+    if (error instanceof ResourceNotFoundException) {
+      console.log(`Certificate ${certificateArn} has already been deleted`)
+      return { destroy: false }
+    }
+    throw error
+  }
+  const successorArn = tags[SUPERSEDED_BY_TAG]
+  if (successorArn !== undefined && (await successorExists(successorArn))) {
+    const policy = tags[REPLACEMENT_REMOVAL_POLICY_TAG] ?? properties.RemovalPolicy
+    console.log(`Certificate ${certificateArn} was superseded by ${successorArn}, applying removal policy ${policy}`)
+    return { destroy: policy === 'destroy', successorArn }
+  }
+  return { destroy: properties.RemovalPolicy === 'destroy' }
+}
+
+const successorExists = async (successorArn: string): Promise<boolean> => {
+  return (await describeExistingCertificate(acmClient(arnRegion(successorArn)), successorArn)) !== undefined
+}
+
+/**
+ * Returns the validation record names of the successor certificate, which must not be deleted with the superseded
+ * certificate as ACM uses the same records for the same domain names.
+ */
+const successorRecordNames = async (successorArn: string | undefined): Promise<string[]> => {
+  if (successorArn === undefined) {
+    return []
+  }
+  const successor = await describeExistingCertificate(acmClient(arnRegion(successorArn)), successorArn)
+  return (successor?.DomainValidationOptions ?? []).flatMap((opt) => opt.ResourceRecord?.Name ?? [])
+}
+
+/**
+ * Returns whether all validation records of the certificate belong to the validation hosted zones of the properties.
+ * The records of a certificate replaced due to a change of the hosted zones may be in zones that are no longer known.
+ */
+const hasRecordsInZones = (certificate: CertificateDetail, properties: Properties): boolean => {
+  const validationRecords = parseDomainValidationRecords(certificate) ?? []
+  const recordsForZoneNames = getRecordsForZoneNames(
+    validationRecords,
+    orderBySignificance(Object.keys(properties.ValidationHostedZones))
+  )
+  return Object.values(recordsForZoneNames).flat().length === validationRecords.length
+}
+
+/**
+ * Deletes the certificates superseded by the given certificate, directly or through earlier replacements, that were
+ * left behind because their deletion failed. The superseded certificates are tracked with tags of the certificate and
+ * the tags are removed once the certificates are gone. Certificates that are still in use are skipped and retried on
+ * the next update. Failures are logged and never fail the update.
+ */
+const cleanupSupersededCertificates = async (
+  acm: ACMClient,
+  writers: RecordWriterFactory,
+  certificateArn: string,
+  properties: Properties
+): Promise<void> => {
+  try {
+    const tags = await listTags(acm, certificateArn)
+    const tracked = Object.entries(tags).filter(([key]) => key.startsWith(SUPERSEDES_TAG_PREFIX))
+    if (tracked.length === 0) {
+      return
+    }
+    console.log(`Cleaning up ${tracked.length} superseded certificate(s): ${tracked.map(([, arn]) => arn).join(', ')}`)
+    const retainedRecordNames = await successorRecordNames(certificateArn)
+    const settledTags: string[] = []
+    for (const [tag, predecessorArn] of tracked) {
+      try {
+        const predecessorAcm = acmClient(arnRegion(predecessorArn))
+        const predecessor = await describeExistingCertificate(predecessorAcm, predecessorArn)
+        if (predecessor === undefined) {
+          settledTags.push(tag)
+          continue
+        }
+        const policy = (await listTags(predecessorAcm, predecessorArn))[REPLACEMENT_REMOVAL_POLICY_TAG] ?? 'destroy'
+        if (policy !== 'destroy') {
+          console.log(`Retaining superseded certificate ${predecessorArn} as per removal policy ${policy}`)
+          settledTags.push(tag)
+          continue
+        }
+        const inUseBy = predecessor.InUseBy ?? []
+        if (inUseBy.length > 0) {
+          console.log(`Superseded certificate ${predecessorArn} is still in use by ${inUseBy.join(', ')}`)
+          continue
+        }
+        let predecessorProperties = properties
+        if (!hasRecordsInZones(predecessor, properties)) {
+          console.log(`Keeping validation records of ${predecessorArn} that are outside the validation hosted zones`)
+          predecessorProperties = { ...properties, CleanupValidationRecords: 'false' }
+        }
+        await deleteCertificate(predecessorAcm, writers, predecessor, predecessorProperties, retainedRecordNames)
+        settledTags.push(tag)
+      } catch (error: unknown) {
+        console.log(`Failed to clean up superseded certificate ${predecessorArn}: ${error}`)
+      }
+    }
+    if (settledTags.length > 0) {
+      await removeTags(acm, certificateArn, settledTags)
+    }
+  } catch (error: unknown) {
+    console.log(`Failed to clean up the certificates superseded by ${certificateArn}: ${error}`)
+  }
+}
+
 const addTags = async (acm: ACMClient, certificateArn: string, tags: Record<string, string>) => {
   const tagList = Array.from(Object.entries(tags).map(([Key, Value]) => ({ Key, Value })))
   const addTagsInput: AddTagsToCertificateCommandInput = {
@@ -278,97 +1179,561 @@ const addTags = async (acm: ACMClient, certificateArn: string, tags: Record<stri
   console.log(`All tags successfully added to certificate ${certificateArn}`)
 }
 
-const shouldRequestNew = (oldProperties: Properties, newProperties: Properties): boolean => {
-  const oldHostedZoneIds = Object.values(oldProperties.ValidationHostedZones ?? {}).map((zone) => zone.HostedZoneId)
-  const newHostedZoneIds = Object.values(newProperties.ValidationHostedZones ?? {}).map((zone) => zone.HostedZoneId)
+const updateCertificateOptions = async (acm: ACMClient, certificateArn: string, properties: Properties) => {
+  const preference = transparencyLoggingPreference(properties.TransparencyLoggingEnabled)
+  const updateCertificateOptionsInput: UpdateCertificateOptionsCommandInput = {
+    CertificateArn: certificateArn,
+    Options: {
+      CertificateTransparencyLoggingPreference: preference,
+    },
+  }
+
+  console.log(`Updating certificate ${certificateArn} transparency logging preference to ${preference}`)
+  await acm.send(new UpdateCertificateOptionsCommand(updateCertificateOptionsInput))
+  console.log(`Certificate ${certificateArn} options successfully updated`)
+}
+
+const removeTags = async (acm: ACMClient, certificateArn: string, tagKeys: string[]) => {
+  const removeTagsInput: RemoveTagsFromCertificateCommandInput = {
+    CertificateArn: certificateArn,
+    Tags: tagKeys.map((Key) => ({ Key })),
+  }
+
+  console.log(`Removing ${tagKeys.length} tags from certificate ${certificateArn}`)
+  await acm.send(new RemoveTagsFromCertificateCommand(removeTagsInput))
+  console.log(`All tags successfully removed from certificate ${certificateArn}`)
+}
+
+const updateTags = async (
+  acm: ACMClient,
+  certificateArn: string,
+  oldTags: Record<string, string>,
+  newTags: Record<string, string>
+) => {
+  const { changed, removed } = diffTags(oldTags, newTags)
+  if (removed.length > 0) {
+    await removeTags(acm, certificateArn, removed)
+  }
+  if (Object.entries(changed).length > 0) {
+    await addTags(acm, certificateArn, changed)
+  }
+}
+
+/**
+ * Checks whether the property changes require a new certificate. Changes of the options that only affect the
+ * lifecycle of the certificate and its records, such as the removal policy and the record cleanup, are applied in
+ * place.
+ */
+export const shouldRequestNew = (oldProperties: Properties, newProperties: Properties): boolean => {
+  const oldHostedZoneIds = Object.values(oldProperties.ValidationHostedZones ?? {}).map(zoneIdentifier)
+  const newHostedZoneIds = Object.values(newProperties.ValidationHostedZones ?? {}).map(zoneIdentifier)
   if (!containsSame(oldHostedZoneIds, newHostedZoneIds)) return true
   if (oldProperties.DomainName !== newProperties.DomainName) return true
   if (!containsSame(oldProperties.AlternativeDomainNames ?? [], newProperties.AlternativeDomainNames ?? [])) return true
   if (oldProperties.CertificateRegion !== newProperties.CertificateRegion) return true
-  if (oldProperties.CleanupValidationRecords !== newProperties.CleanupValidationRecords) return true
-  if (oldProperties.TransparencyLoggingEnabled !== newProperties.TransparencyLoggingEnabled) return true
-  if (oldProperties.RemovalPolicy !== newProperties.RemovalPolicy) return true
+  if (!containsSame(certificateRegions(oldProperties), certificateRegions(newProperties))) return true
+  if (parseValidationMethod(oldProperties) !== parseValidationMethod(newProperties)) return true
+  if (oldProperties.CertificateAuthorityArn !== newProperties.CertificateAuthorityArn) return true
+  if (parseKeyAlgorithm(oldProperties) !== parseKeyAlgorithm(newProperties)) return true
+  if (objectToString(oldProperties.ValidationDomains ?? {}) !== objectToString(newProperties.ValidationDomains ?? {})) {
+    return true
+  }
   return false
 }
 
-const assumeRole = (
-  roleArn: string | undefined,
-  externalId: string | undefined
-): Provider<AwsCredentialIdentity> | undefined => {
+/**
+ * Returns the credentials of the validation role, assumed through the roles of the chain in order. The external id
+ * and the session policy apply only to the validation role, the session name and tags to every session.
+ */
+const assumeRole = (hostedZone: ValidationHostedZoneProperties): Provider<AwsCredentialIdentity> | undefined => {
+  const roleArn = hostedZone.ValidationRoleArn
   if (!roleArn) {
     return undefined
   }
+  const roleArns = [...(hostedZone.ValidationRoleChain ?? []), roleArn]
+  const tags = Object.entries(hostedZone.ValidationSessionTags ?? {}).map(([Key, Value]) => ({ Key, Value }))
   return async () => {
-    const sts = new STSClient({ retryMode: 'adaptive' })
-    const assumeRoleInput: AssumeRoleCommandInput = {
-      RoleArn: roleArn,
-      RoleSessionName: 'CertificateRequestor',
-      ExternalId: externalId,
-    }
-    const { Credentials } = await sts.send(new AssumeRoleCommand(assumeRoleInput))
-    return {
-      accessKeyId: Credentials?.AccessKeyId!,
-      secretAccessKey: Credentials?.SecretAccessKey!,
-      sessionToken: Credentials?.SessionToken!,
-      expiration: Credentials?.Expiration,
+    let credentials: AwsCredentialIdentity | undefined = undefined
+    for (const [index, arn] of roleArns.entries()) {
+      const last = index === roleArns.length - 1
+      const sts: STSClient = new STSClient({ retryMode: 'adaptive', credentials })
+      const assumeRoleInput: AssumeRoleCommandInput = {
+        RoleArn: arn,
+        RoleSessionName: hostedZone.ValidationSessionName ?? DEFAULT_SESSION_NAME,
+        ExternalId: last ? hostedZone.ValidationExternalId : undefined,
+        Policy: last ? hostedZone.ValidationSessionPolicy : undefined,
+        Tags: tags.length > 0 ? tags : undefined,
+      }
+      const { Credentials } = await sts.send(new AssumeRoleCommand(assumeRoleInput))
+      credentials = {
+        accessKeyId: Credentials?.AccessKeyId!,
+        secretAccessKey: Credentials?.SecretAccessKey!,
+        sessionToken: Credentials?.SessionToken!,
+        expiration: Credentials?.Expiration,
+      }
     }
+    return credentials!
   }
 }
 
-export const handler = async (event: CloudFormationCustomResourceEvent) => {
-  const properties = parseProperties(event.ResourceProperties)
+const route53Client = (hostedZone: ValidationHostedZoneProperties): Route53Client => {
+  return new Route53Client({
+    retryMode: 'adaptive',
+    credentials: assumeRole(hostedZone),
+  })
+}
 
-  const acm = new ACMClient({ region: properties.CertificateRegion, retryMode: 'adaptive' })
-  const route53 = (roleArn: string | undefined, externalId: string | undefined): Route53Client => {
-    return new Route53Client({
-      retryMode: 'adaptive',
-      credentials: assumeRole(roleArn, externalId),
+const createWriters = (properties: Properties): RecordWriterFactory => {
+  const timeouts = parseTimeouts(properties)
+  return (hostedZone: ValidationHostedZoneProperties): RecordWriter => {
+    const functionArn = hostedZone.ValidationFunctionArn
+    if (functionArn) {
+      const lambda = new LambdaClient({ retryMode: 'adaptive' })
+      return (action, records) =>
+        invokeValidationRecordFunction(lambda, functionArn, action, records, hostedZone.DomainName)
+    }
+    const route53 = route53Client(hostedZone)
+    return (action, records) =>
+      changeRecordSets(route53, action, records, hostedZone.HostedZoneId!, timeouts.recordSync)
+  }
+}
+
+const findRecordSet = async (
+  route53: Route53Client,
+  hostedZoneId: string,
+  record: ResourceRecordSet
+): Promise<ResourceRecordSet | undefined> => {
+  const { ResourceRecordSets } = await route53.send(
+    new ListResourceRecordSetsCommand({
+      HostedZoneId: hostedZoneId,
+      StartRecordName: record.Name,
+      StartRecordType: record.Type,
+      MaxItems: 1,
     })
+  )
+  // the listing starts from the given name, so the first record set is some other record if the record is missing
+  const [recordSet] = ResourceRecordSets ?? []
+  if (
+    recordSet === undefined ||
+    recordSet.Type !== record.Type ||
+    cleanDomainName(recordSet.Name!).toLowerCase() !== cleanDomainName(record.Name!).toLowerCase()
+  ) {
+    return undefined
+  }
+  return recordSet
+}
+
+const createReaders = (): RecordReaderFactory => {
+  return (hostedZone: ValidationHostedZoneProperties): RecordReader | undefined => {
+    if (hostedZone.ValidationFunctionArn) {
+      return undefined
+    }
+    const route53 = route53Client(hostedZone)
+    return (record) => findRecordSet(route53, hostedZone.HostedZoneId!, record)
+  }
+}
+
+/**
+ * Returns the certificates of all regions and, separately, the ones that were requested instead of adopted.
+ */
+const requestCertificates = async (
+  requestId: string,
+  properties: Properties,
+  adoptExisting: boolean
+): Promise<{ certificateArns: string[]; requestedArns: string[] }> => {
+  const certificateArns: string[] = []
+  const requestedArns: string[] = []
+  for (const region of certificateRegions(properties)) {
+    const acm = acmClient(region)
+    let certificateArn: string | undefined
+    if (adoptExisting) {
+      certificateArn = await adoptCertificate(acm, properties)
+    }
+    if (certificateArn === undefined) {
+      console.log(`Requesting new certificate in ${region}:\n${objectToString(properties)}`)
+      certificateArn = await requestCertificate(acm, requestId, properties)
+      requestedArns.push(certificateArn)
+    }
+    certificateArns.push(certificateArn)
+  }
+  return { certificateArns, requestedArns }
+}
+
+const setupCertificates = async (
+  writers: RecordWriterFactory,
+  certificateArns: string[],
+  requestedArns: string[],
+  properties: Properties,
+  asynchronous: boolean
+): Promise<void> => {
+  if (usesDnsValidation(properties)) {
+    await upsertValidationRecords(writers, certificateArns, properties)
+  }
+  for (const certificateArn of certificateArns) {
+    if (properties.Tags && Object.entries(properties.Tags).length > 0) {
+      await addTags(acmClient(arnRegion(certificateArn)), certificateArn, properties.Tags)
+    }
+  }
+  if (!asynchronous) {
+    try {
+      for (const certificateArn of certificateArns) {
+        await waitForValidation(acmClient(arnRegion(certificateArn)), certificateArn, parseTimeouts(properties))
+      }
+    } catch (error: unknown) {
+      await cleanupFailedCertificates(writers, requestedArns, properties)
+      throw error
+    }
+  }
+}
+
+const cleanupFailedCertificates = async (
+  writers: RecordWriterFactory,
+  certificateArns: string[],
+  properties: Properties
+): Promise<void> => {
+  for (const certificateArn of certificateArns) {
+    await cleanupFailedCertificate(acmClient(arnRegion(certificateArn)), writers, certificateArn, properties)
+  }
+}
+
+const onEvent = async (event: CloudFormationCustomResourceEvent): Promise<OnEventResponse> => {
+  const asynchronous = stringToBoolean(process.env.ASYNCHRONOUS_COMPLETION ?? 'false')
+  let properties: Properties
+  try {
+    properties = parseProperties(event.ResourceProperties)
+  } catch (error) {
+    if (event.RequestType !== 'Delete') {
+      throw error
+    }
+    // failing here would block the rollback and the stack deletion for good
+    console.log(`Deleting resource with invalid properties: ${(error as Error).message}`)
+    await deleteWithoutProperties(event.PhysicalResourceId, event.ResourceProperties)
+    return {
+      PhysicalResourceId: event.PhysicalResourceId,
+      CompletionCheck: asynchronous ? 'None' : undefined,
+    }
   }
+  const timeouts = parseTimeouts(properties)
+  const writers = createWriters(properties)
 
   switch (event.RequestType) {
     case 'Create': {
-      console.log(`Requesting new certificate:\n${objectToString(properties)}`)
-      const certificateArn = await requestCertificate(acm, route53, event.RequestId, properties)
-      if (properties.Tags && Object.entries(properties.Tags).length > 0) {
-        await addTags(acm, certificateArn, properties.Tags)
-      }
+      const adoptExisting = stringToBoolean(properties.AdoptExisting ?? 'false')
+      const { certificateArns, requestedArns } = await requestCertificates(event.RequestId, properties, adoptExisting)
+      await setupCertificates(writers, certificateArns, requestedArns, properties, asynchronous)
       return {
-        PhysicalResourceId: certificateArn,
-        Data: {
-          Arn: certificateArn,
-        },
+        PhysicalResourceId: certificateArns.join(','),
+        Data: await certificateData(certificateArns, properties),
+        RequestedCertificateArns: asynchronous ? requestedArns.join(',') : undefined,
+        CompletionCheck: asynchronous ? 'Validation' : undefined,
       }
     }
     case 'Update': {
-      let certificateArn = event.PhysicalResourceId
-      if (shouldRequestNew(parseProperties(event.OldResourceProperties), properties)) {
-        console.log(`Requesting new certificate due to change of properties:\n${objectToString(properties)}`)
-        certificateArn = await requestCertificate(acm, route53, event.RequestId, properties)
-      }
-      if (properties.Tags && Object.entries(properties.Tags).length > 0) {
-        await addTags(acm, certificateArn, properties.Tags)
+      const oldProperties = parseProperties(event.OldResourceProperties)
+      const oldCertificateArns = parseCertificateArns(event.PhysicalResourceId)
+      let certificateArns = oldCertificateArns
+      let requestedArns: string[] = []
+      if (shouldRequestNew(oldProperties, properties)) {
+        console.log(`Requesting new certificate(s) due to change of properties`)
+        const requested = await requestCertificates(event.RequestId, properties, false)
+        certificateArns = requested.certificateArns
+        requestedArns = requested.requestedArns
+        await setupCertificates(writers, certificateArns, requestedArns, properties, asynchronous)
+        for (const oldCertificateArn of oldCertificateArns) {
+          const region = arnRegion(oldCertificateArn)
+          const successorArn = certificateArns.find((arn) => arnRegion(arn) === region) ?? certificateArns[0]
+          await markSuperseded(acmClient(region), oldCertificateArn, successorArn, properties)
+        }
+      } else {
+        for (const certificateArn of certificateArns) {
+          const acm = acmClient(arnRegion(certificateArn))
+          if (
+            !isPrivate(properties) &&
+            oldProperties.TransparencyLoggingEnabled !== properties.TransparencyLoggingEnabled
+          ) {
+            await updateCertificateOptions(acm, certificateArn, properties)
+          }
+          await updateTags(acm, certificateArn, oldProperties.Tags ?? {}, properties.Tags ?? {})
+          await cleanupSupersededCertificates(acm, writers, certificateArn, properties)
+        }
       }
+      // certificates updated in place are not validated again, like in the synchronous mode
       return {
-        PhysicalResourceId: certificateArn,
-        Data: {
-          Arn: certificateArn,
-        },
+        PhysicalResourceId: certificateArns.join(','),
+        Data: await certificateData(certificateArns, properties),
+        RequestedCertificateArns: asynchronous ? requestedArns.join(',') : undefined,
+        CompletionCheck: asynchronous ? (requestedArns.length > 0 ? 'Validation' : 'None') : undefined,
       }
     }
     case 'Delete': {
-      const certificateArn = event.PhysicalResourceId
-      if (properties.RemovalPolicy === 'destroy') {
-        console.log(`Deleting old certificate as per removal policy:\n${objectToString(properties)}`)
-        await deleteCertificate(acm, route53, certificateArn, properties)
+      let destroyAny = false
+      for (const certificateArn of parseCertificateArns(event.PhysicalResourceId)) {
+        const acm = acmClient(arnRegion(certificateArn))
+        const { destroy, successorArn } = await deletionPolicy(acm, certificateArn, properties)
+        destroyAny = destroyAny || destroy
+        if (destroy && !asynchronous) {
+          console.log(`Deleting old certificate as per removal policy:\n${objectToString(properties)}`)
+          const certificate = await waitForUnused(acm, certificateArn, timeouts)
+          if (certificate !== undefined) {
+            await deleteCertificate(acm, writers, certificate, properties, await successorRecordNames(successorArn))
+          }
+        }
       }
       return {
-        PhysicalResourceId: certificateArn,
+        PhysicalResourceId: event.PhysicalResourceId,
         Data: {
-          Arn: certificateArn,
+          Arn: parseCertificateArns(event.PhysicalResourceId)[0],
         },
+        CompletionCheck: asynchronous ? (destroyAny ? 'Deletion' : 'None') : undefined,
       }
     }
   }
   throw new Error(`Invalid request type`)
 }
+
+/**
+ * Deletes the certificates of a resource whose properties cannot be parsed, for example properties stored by an
+ * earlier version. A physical id without certificate ARNs means the creation failed before any certificate was
+ * requested. Without the hosted zones the validation records are left in place and logged, and a certificate that
+ * cannot be deleted, for example as it is still in use, is only logged.
+ */
+const deleteWithoutProperties = async (physicalResourceId: string, properties: Record<string, unknown>) => {
+  const certificateArns = parseCertificateArns(physicalResourceId).filter((arn) => CERTIFICATE_ARN_PATTERN.test(arn))
+  if (certificateArns.length === 0) {
+    console.log(`Resource ${physicalResourceId} has no certificates to delete`)
+    return
+  }
+  if (properties.RemovalPolicy !== undefined && properties.RemovalPolicy !== 'destroy') {
+    console.log(`Retaining certificate(s) ${certificateArns.join(', ')} as per removal policy`)
+    return
+  }
+  for (const certificateArn of certificateArns) {
+    const acm = acmClient(arnRegion(certificateArn))
+    try {
+      const certificate = await describeExistingCertificate(acm, certificateArn)
+      if (certificate === undefined) {
+        continue
+      }
+      const recordNames = (certificate.DomainValidationOptions ?? []).flatMap((opt) => opt.ResourceRecord?.Name ?? [])
+      if (recordNames.length > 0) {
+        console.log(`Leaving validation record(s) ${recordNames.join(', ')} of certificate ${certificateArn} in place`)
+      }
+      await acm.send(new DeleteCertificateCommand({ CertificateArn: certificateArn }))
+      console.log(`Certificate ${certificateArn} successfully deleted`)
+    } catch (error: unknown) {
+      console.log(`Certificate ${certificateArn} could not be deleted: ${(error as Error).message}`)
+    }
+  }
+}
+
+const isComplete = async (event: IsCompleteEvent): Promise<IsCompleteResponse> => {
+  if (event.CompletionCheck === 'None') {
+    return { IsComplete: true }
+  }
+  const properties = parseProperties(event.ResourceProperties)
+  const writers = createWriters(properties)
+  const certificateArns = parseCertificateArns(event.PhysicalResourceId)
+
+  switch (event.CompletionCheck) {
+    case 'Validation':
+      try {
+        const validated: boolean[] = []
+        for (const certificateArn of certificateArns) {
+          validated.push(await isValidated(acmClient(arnRegion(certificateArn)), certificateArn))
+        }
+        if (!validated.every((value) => value)) {
+          return { IsComplete: false }
+        }
+        // the details are known only after the validation, the provider merges them into the onEvent data
+        const [primaryArn] = certificateArns
+        const certificate = await describeCertificate(acmClient(arnRegion(primaryArn)), primaryArn)
+        return { IsComplete: true, Data: certificateDetails(certificate) }
+      } catch (error: unknown) {
+        const requestedArns = event.RequestedCertificateArns ? parseCertificateArns(event.RequestedCertificateArns) : []
+        await cleanupFailedCertificates(writers, requestedArns, properties)
+        throw error
+      }
+    case 'Deletion': {
+      console.log(`Deleting old certificate as per removal policy:\n${objectToString(properties)}`)
+      const deleted: boolean[] = []
+      for (const certificateArn of certificateArns) {
+        deleted.push(await isDeleted(acmClient(arnRegion(certificateArn)), writers, certificateArn, properties))
+      }
+      return { IsComplete: deleted.every((value) => value) }
+    }
+  }
+  throw new Error(`Invalid completion check`)
+}
+
+/**
+ * Returns the validation records that are missing from their hosted zones or have a different value. Records in
+ * zones managed by a record function cannot be read, so they are never reported.
+ */
+const findDriftedRecords = async (
+  readers: RecordReaderFactory,
+  validationRecords: ResourceRecordSet[],
+  properties: Properties
+): Promise<ResourceRecordSet[]> => {
+  const recordsForZoneNames = getRecordsForZoneNames(
+    validationRecords,
+    orderBySignificance(Object.keys(properties.ValidationHostedZones))
+  )
+  const drifted: ResourceRecordSet[] = []
+  for (const hostedZone of Object.values(properties.ValidationHostedZones)) {
+    const records = recordsForZoneNames[hostedZone.DomainName] ?? []
+    if (records.length === 0) {
+      continue
+    }
+    const reader = readers(hostedZone)
+    if (reader === undefined) {
+      console.log(`Validation records of zone ${hostedZone.DomainName} are managed by a function and not verified`)
+      continue
+    }
+    for (const record of records) {
+      const recordSet = await reader(record)
+      const value = record.ResourceRecords?.[0]?.Value
+      if (recordSet === undefined) {
+        console.log(`Validation record ${record.Name} is missing from hosted zone ${zoneIdentifier(hostedZone)}`)
+        drifted.push(record)
+      } else if (!(recordSet.ResourceRecords ?? []).some((rr) => rr.Value === value)) {
+        console.log(
+          `Validation record ${record.Name} does not have the value ${value} in ${zoneIdentifier(hostedZone)}`
+        )
+        drifted.push(record)
+      }
+    }
+  }
+  return drifted
+}
+
+/** Publishes the certificate's metrics in the CloudWatch embedded metric format */
+const publishMetrics = (certificateArn: string, metrics: Record<string, number>): void => {
+  console.log(
+    JSON.stringify({
+      _aws: {
+        Timestamp: Date.now(),
+        CloudWatchMetrics: [
+          {
+            Namespace: METRIC_NAMESPACE,
+            Dimensions: [['CertificateArn']],
+            Metrics: Object.keys(metrics).map((name) => ({ Name: name, Unit: 'Count' })),
+          },
+        ],
+      },
+      CertificateArn: certificateArn,
+      ...metrics,
+    })
+  )
+}
+
+/**
+ * Returns the validation records of a managed renewal that waits for the domain validation or has failed, because
+ * the renewal succeeds only if the records are in place.
+ */
+export const renewalValidationRecords = (certificate: CertificateDetail): ResourceRecordSet[] => {
+  const renewal = certificate.RenewalSummary
+  if (renewal === undefined) {
+    return []
+  }
+  console.log(`Managed renewal of certificate ${certificate.CertificateArn} is ${renewal.RenewalStatus}`)
+  if (renewal.RenewalStatus !== 'PENDING_VALIDATION' && renewal.RenewalStatus !== 'FAILED') {
+    return []
+  }
+  const pending = (renewal.DomainValidationOptions ?? []).filter((opt) => opt.ValidationStatus !== 'SUCCESS')
+  pending.forEach((opt) =>
+    console.log(
+      `Renewal validation of ${opt.DomainName} is ${opt.ValidationStatus} ${renewal.RenewalStatusReason ?? ''}`
+    )
+  )
+  return parseValidationRecords(pending) ?? []
+}
+
+/**
+ * Returns the session policy allowing only the upserts of the given validation records in the hosted zone, rebuilt
+ * for the reconcile events that do not carry the session policy of the custom resource.
+ */
+const recordSessionPolicy = (hostedZone: ValidationHostedZoneProperties, records: ResourceRecordSet[]): string => {
+  const zoneArn = `arn:aws:route53:::hostedzone/${hostedZone.HostedZoneId}`
+  return JSON.stringify({
+    Version: '2012-10-17',
+    Statement: [
+      { Effect: 'Allow', Action: 'route53:GetChange', Resource: '*' },
+      { Effect: 'Allow', Action: 'route53:ListResourceRecordSets', Resource: zoneArn },
+      {
+        Effect: 'Allow',
+        Action: 'route53:ChangeResourceRecordSets',
+        Resource: zoneArn,
+        Condition: {
+          'ForAllValues:StringEquals': {
+            'route53:ChangeResourceRecordSetsRecordTypes': ['CNAME'],
+            'route53:ChangeResourceRecordSetsActions': ['UPSERT'],
+            'route53:ChangeResourceRecordSetsNormalizedRecordNames': records.map((record) =>
+              cleanDomainName(record.Name!).toLowerCase()
+            ),
+          },
+        },
+      },
+    ],
+  })
+}
+
+/** Returns the properties with the session policies of the zones that ask for one limited to the given records */
+export const withRecordSessionPolicies = (properties: Properties, records: ResourceRecordSet[]): Properties => {
+  const zones = Object.entries(properties.ValidationHostedZones).map(([key, zone]) => {
+    if (!stringToBoolean(zone.ValidationRecordSessionPolicy ?? 'false')) {
+      return [key, zone]
+    }
+    return [key, { ...zone, ValidationSessionPolicy: recordSessionPolicy(zone, records) }]
+  })
+  return { ...properties, ValidationHostedZones: Object.fromEntries(zones) }
+}
+
+const reconcile = async (event: ReconcileEvent): Promise<void> => {
+  const properties = parseProperties(event.ResourceProperties)
+  if (!usesDnsValidation(properties)) {
+    console.log(`Certificate is not DNS validated, there are no validation records to reconcile`)
+    return
+  }
+  const readers = createReaders()
+
+  for (const certificateArn of parseCertificateArns(event.PhysicalResourceId)) {
+    const certificate = await describeExistingCertificate(acmClient(arnRegion(certificateArn)), certificateArn)
+    if (certificate === undefined) {
+      continue
+    }
+    const drifted = await findDriftedRecords(readers, parseDomainValidationRecords(certificate) ?? [], properties)
+    const renewalStatus = certificate.RenewalSummary?.RenewalStatus
+    publishMetrics(certificateArn, {
+      [DRIFT_METRIC_NAME]: drifted.length,
+      [RENEWAL_PENDING_VALIDATION_METRIC_NAME]: renewalStatus === 'PENDING_VALIDATION' ? 1 : 0,
+      [RENEWAL_FAILED_METRIC_NAME]: renewalStatus === 'FAILED' ? 1 : 0,
+    })
+
+    // the records of a renewal waiting for validation are re-applied even if they seem to be in place
+    const renewalRecords = renewalValidationRecords(certificate)
+    const records = [...drifted, ...renewalRecords.filter((record) => !drifted.some((r) => r.Name === record.Name))]
+    if (records.length > 0) {
+      console.log(`Restoring ${records.length} validation record(s) of certificate ${certificateArn}`)
+      const recordProperties = withRecordSessionPolicies(properties, records)
+      await changeValidationRecords(createWriters(recordProperties), 'UPSERT', records, recordProperties)
+    } else {
+      console.log(`Validation records of certificate ${certificateArn} are in sync`)
+    }
+  }
+}
+
+const isReconcileEvent = (event: object): event is ReconcileEvent => {
+  return 'RequestType' in event && event.RequestType === 'Reconcile'
+}
+
+export const handler = async (
+  event: CloudFormationCustomResourceEvent | IsCompleteEvent | ReconcileEvent
+): Promise<OnEventResponse | IsCompleteResponse | void> => {
+  if ('CompletionCheck' in event) {
+    return isComplete(event)
+  }
+  if (isReconcileEvent(event)) {
+    return reconcile(event)
+  }
+  return onEvent(event)
+}
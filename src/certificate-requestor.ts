@@ -0,0 +1,144 @@
+import * as cdk from 'aws-cdk-lib'
+import * as iam from 'aws-cdk-lib/aws-iam'
+import * as lambda from 'aws-cdk-lib/aws-lambda'
+import * as custom_resources from 'aws-cdk-lib/custom-resources'
+import { Construct, IDependable } from 'constructs'
+import { CertificateRequestorFunction } from './certificate-requestor-function'
+
+const CERTIFICATE_REQUESTOR_ID = 'DnsValidatedCertificateRequestor'
+
+/** Timeout of the requestor Lambda function */
+export const REQUESTOR_TIMEOUT = cdk.Duration.minutes(14)
+
+/** Interval for polling the asynchronous completion of the custom resource events */
+export const QUERY_INTERVAL = cdk.Duration.seconds(30)
+
+/** Maximum total timeout supported by the custom resource provider */
+export const MAX_TOTAL_TIMEOUT = cdk.Duration.hours(2)
+
+export interface CertificateRequestorProps {
+  /**
+   * The role that is used for the requestor Lambda execution.
+   *
+   * @default - Lambda creates a default execution role.
+   */
+  readonly role?: iam.IRole
+
+  /**
+   * Total timeout for the asynchronous completion of the custom resource events.
+   *
+   * @default - Custom resource events are completed synchronously.
+   */
+  readonly totalTimeout?: cdk.Duration
+}
+
+/**
+ * The certificate requestor Lambda function and the custom resource provider.
+ *
+ * By default each certificate owns its requestor. Certificates can opt in to a stack level requestor shared by the
+ * opted in certificates using the same execution role and total timeout. Each certificate extends the requestor's
+ * role policy with the statements it needs for validation. Opting in changes the service token of the custom resource,
+ * which cannot change after creation, so only new certificates can opt in.
+ */
+export class CertificateRequestor extends Construct {
+  /**
+   * Creates a requestor owned by the given certificate.
+   *
+   * The requestor uses the id ``Default``, which is left out of the logical ids, so the function and the provider keep
+   * the logical ids and the service token they had when certificates created them as their own children.
+   *
+   * @param certificate construct owning the requestor
+   * @param props properties for the requestor
+   */
+  public static forCertificate(certificate: Construct, props: CertificateRequestorProps): CertificateRequestor {
+    return new CertificateRequestor(certificate, 'Default', props)
+  }
+
+  /**
+   * Returns the shared requestor for the given scope's stack, role and total timeout, creating it on first use.
+   *
+   * @param scope construct whose stack hosts the requestor
+   * @param props properties for the requestor
+   */
+  public static of(scope: Construct, props: CertificateRequestorProps): CertificateRequestor {
+    const stack = cdk.Stack.of(scope)
+    const id = [
+      CERTIFICATE_REQUESTOR_ID,
+      props.role?.node.addr ?? '',
+      props.totalTimeout !== undefined ? `Timeout${props.totalTimeout.toSeconds()}` : '',
+    ].join('')
+    const existing = stack.node.tryFindChild(id) as CertificateRequestor | undefined
+    return existing ?? new CertificateRequestor(stack, id, props)
+  }
+
+  /** The Lambda function handling the custom resource events */
+  public readonly function: lambda.Function
+
+  /** The custom resource provider backed by the requestor function */
+  public readonly provider: custom_resources.Provider
+
+  private constructor(scope: Construct, id: string, props: CertificateRequestorProps) {
+    super(scope, id)
+
+    this.function = new CertificateRequestorFunction(this, 'RequestorFunction', {
+      architecture: lambda.Architecture.ARM_64,
+      timeout: REQUESTOR_TIMEOUT,
+      role: props.role,
+    })
+
+    this.function.addToRolePolicy(
+      new iam.PolicyStatement({
+        effect: iam.Effect.ALLOW,
+        actions: [
+          'acm:RequestCertificate',
+          'acm:DescribeCertificate',
+          'acm:DeleteCertificate',
+          'acm:ListCertificates',
+          'acm:ListTagsForCertificate',
+          'acm:AddTagsToCertificate',
+          'acm:RemoveTagsFromCertificate',
+          'acm:UpdateCertificateOptions',
+        ],
+        resources: ['*'],
+      })
+    )
+
+    if (props.totalTimeout !== undefined) {
+      // the same function handles both phases, isComplete events are recognized from the onEvent response
+      this.function.addEnvironment('ASYNCHRONOUS_COMPLETION', 'true')
+    }
+
+    this.provider = new custom_resources.Provider(this, 'RequestorProvider', {
+      onEventHandler: this.function,
+      isCompleteHandler: props.totalTimeout !== undefined ? this.function : undefined,
+      queryInterval: props.totalTimeout !== undefined ? QUERY_INTERVAL : undefined,
+      totalTimeout: props.totalTimeout,
+    })
+  }
+
+  /**
+   * Adds a statement to the requestor function's role policy.
+   *
+   * @param statement the policy statement to add
+   */
+  public addToRolePolicy(statement: iam.PolicyStatement): void {
+    this.function.addToRolePolicy(statement)
+  }
+
+  /**
+   * Returns the constructs a custom resource must depend on to be deleted before the requestor function loses its
+   * permissions.
+   */
+  public dependables(): IDependable[] {
+    const dependables: IDependable[] = [this.function]
+    const role = this.function.role
+    if (role !== undefined) {
+      dependables.push(role)
+      const policy = role.node.tryFindChild('DefaultPolicy')
+      if (policy !== undefined) {
+        dependables.push(policy)
+      }
+    }
+    return dependables
+  }
+}
@@ -0,0 +1,370 @@
+import * as cdk from 'aws-cdk-lib'
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch'
+import * as events from 'aws-cdk-lib/aws-events'
+import * as iam from 'aws-cdk-lib/aws-iam'
+import * as custom_resources from 'aws-cdk-lib/custom-resources'
+import { Construct } from 'constructs'
+
+export interface CrossRegionAlarmProps {
+  /** Region where the alarm is created, the same as the region of the metric */
+  readonly region: string
+
+  /** The metric to alarm on, must not be a math expression */
+  readonly metric: cloudwatch.Metric
+
+  /** The alarm threshold */
+  readonly threshold: number
+
+  /** Comparison between the metric and the threshold */
+  readonly comparisonOperator: cloudwatch.ComparisonOperator
+
+  /** Actions when the alarm goes to the ALARM state, must be in ``region`` */
+  readonly actions: cloudwatch.IAlarmAction[]
+
+  /**
+   * Name of the alarm.
+   *
+   * @default - A unique name derived from the construct path.
+   */
+  readonly alarmName?: string
+
+  /**
+   * Description of the alarm.
+   *
+   * @default - No description.
+   */
+  readonly alarmDescription?: string
+}
+
+/**
+ * CloudWatch alarm in a region other than the stack region.
+ *
+ * CloudFormation creates alarms only in the stack region and an alarm must be in the same region as its metric, so
+ * the alarm is managed with the CloudWatch API.
+ */
+export class CrossRegionAlarm extends Construct {
+  /** The alarm in the given region */
+  public readonly alarm: cloudwatch.IAlarm
+
+  constructor(scope: Construct, id: string, props: CrossRegionAlarmProps) {
+    super(scope, id)
+
+    const stack = cdk.Stack.of(this)
+    const alarmName = props.alarmName ?? cdk.Names.uniqueResourceName(this, { maxLength: 255 })
+    const alarmArn = stack.formatArn({
+      service: 'cloudwatch',
+      region: props.region,
+      resource: 'alarm',
+      resourceName: alarmName,
+      arnFormat: cdk.ArnFormat.COLON_RESOURCE_NAME,
+    })
+    this.alarm = cloudwatch.Alarm.fromAlarmArn(this, 'Alarm', alarmArn)
+
+    const metric = props.metric.toMetricConfig().metricStat
+    if (metric === undefined) {
+      throw new Error(`Alarm ${this.node.path} cannot be created from a math expression`)
+    }
+
+    const putMetricAlarm: custom_resources.AwsSdkCall = {
+      service: 'CloudWatch',
+      action: 'putMetricAlarm',
+      region: props.region,
+      parameters: {
+        AlarmName: alarmName,
+        AlarmDescription: props.alarmDescription,
+        Namespace: metric.namespace,
+        MetricName: metric.metricName,
+        Dimensions: metric.dimensions?.map((dimension) => ({ Name: dimension.name, Value: dimension.value })),
+        Statistic: metric.statistic,
+        Period: metric.period.toSeconds(),
+        EvaluationPeriods: 1,
+        Threshold: props.threshold,
+        ComparisonOperator: props.comparisonOperator,
+        AlarmActions: props.actions.map((action) => action.bind(this, this.alarm).alarmActionArn),
+      },
+      physicalResourceId: custom_resources.PhysicalResourceId.of(alarmName),
+    }
+
+    new custom_resources.AwsCustomResource(this, 'Resource', {
+      onCreate: putMetricAlarm,
+      onUpdate: putMetricAlarm,
+      onDelete: {
+        service: 'CloudWatch',
+        action: 'deleteAlarms',
+        region: props.region,
+        parameters: { AlarmNames: [alarmName] },
+      },
+      policy: custom_resources.AwsCustomResourcePolicy.fromStatements([
+        new iam.PolicyStatement({
+          actions: ['cloudwatch:PutMetricAlarm', 'cloudwatch:DeleteAlarms'],
+          resources: [alarmArn],
+        }),
+      ]),
+      installLatestAwsSdk: false,
+    })
+  }
+}
+
+export interface CrossRegionEventForwarderProps {
+  /** Region where the events are emitted */
+  readonly region: string
+
+  /** Pattern of the events to forward */
+  readonly eventPattern: events.EventPattern
+}
+
+/**
+ * Forwards the matching events from the default event bus of another region to the default event bus of the stack
+ * region, where they can be routed with ordinary rules.
+ *
+ * CloudFormation creates rules only in the stack region, so the forwarding rule is managed with the EventBridge API.
+ */
+export class CrossRegionEventForwarder extends Construct {
+  constructor(scope: Construct, id: string, props: CrossRegionEventForwarderProps) {
+    super(scope, id)
+
+    const stack = cdk.Stack.of(this)
+    const ruleName = cdk.Names.uniqueResourceName(this, { maxLength: 64 })
+    const ruleArn = stack.formatArn({
+      service: 'events',
+      region: props.region,
+      resource: 'rule',
+      resourceName: ruleName,
+    })
+    const targetId = 'StackRegionEventBus'
+
+    const targetBusArn = stack.formatArn({ service: 'events', resource: 'event-bus', resourceName: 'default' })
+    const role = new iam.Role(this, 'Role', {
+      assumedBy: new iam.ServicePrincipal('events.amazonaws.com'),
+    })
+    role.addToPolicy(
+      new iam.PolicyStatement({
+        actions: ['events:PutEvents'],
+        resources: [targetBusArn],
+      })
+    )
+
+    const putRule: custom_resources.AwsSdkCall = {
+      service: 'EventBridge',
+      action: 'putRule',
+      region: props.region,
+      parameters: {
+        Name: ruleName,
+        Description: `Forwards events to ${stack.region} for ${this.node.path}`,
+        EventPattern: stack.toJsonString(renderEventPattern(props.eventPattern)),
+        State: 'ENABLED',
+      },
+      physicalResourceId: custom_resources.PhysicalResourceId.of(ruleName),
+    }
+    const rule = new custom_resources.AwsCustomResource(this, 'Rule', {
+      onCreate: putRule,
+      onUpdate: putRule,
+      onDelete: {
+        service: 'EventBridge',
+        action: 'deleteRule',
+        region: props.region,
+        parameters: { Name: ruleName },
+      },
+      policy: custom_resources.AwsCustomResourcePolicy.fromStatements([
+        new iam.PolicyStatement({
+          actions: ['events:PutRule', 'events:DeleteRule'],
+          resources: [ruleArn],
+        }),
+      ]),
+      installLatestAwsSdk: false,
+    })
+
+    const putTargets: custom_resources.AwsSdkCall = {
+      service: 'EventBridge',
+      action: 'putTargets',
+      region: props.region,
+      parameters: {
+        Rule: ruleName,
+        Targets: [{ Id: targetId, Arn: targetBusArn, RoleArn: role.roleArn }],
+      },
+      physicalResourceId: custom_resources.PhysicalResourceId.of(`${ruleName}-${targetId}`),
+    }
+    const target = new custom_resources.AwsCustomResource(this, 'Target', {
+      onCreate: putTargets,
+      onUpdate: putTargets,
+      onDelete: {
+        service: 'EventBridge',
+        action: 'removeTargets',
+        region: props.region,
+        parameters: { Rule: ruleName, Ids: [targetId] },
+      },
+      policy: custom_resources.AwsCustomResourcePolicy.fromStatements([
+        new iam.PolicyStatement({
+          actions: ['events:PutTargets', 'events:RemoveTargets'],
+          resources: [ruleArn],
+        }),
+        new iam.PolicyStatement({
+          actions: ['iam:PassRole'],
+          resources: [role.roleArn],
+        }),
+      ]),
+      installLatestAwsSdk: false,
+    })
+    // targets must be removed before the rule can be deleted
+    target.node.addDependency(rule)
+  }
+}
+
+/** Renders the event pattern with the field names used by the EventBridge API */
+const renderEventPattern = (eventPattern: events.EventPattern): Record<string, unknown> => {
+  const { detailType, ...rest } = eventPattern
+  return {
+    ...rest,
+    ...(detailType !== undefined ? { 'detail-type': detailType } : {}),
+  }
+}
+
+export interface CrossRegionParameterWriterProps {
+  /** Region where the parameter is written */
+  readonly region: string
+
+  /** Name of the parameter */
+  readonly parameterName: string
+
+  /** Values of the ``StringList`` parameter */
+  readonly values: string[]
+
+  /** Description of the parameter */
+  readonly description: string
+
+  /**
+   * Role to assume for writing the parameter, for example in another account.
+   *
+   * @default - The parameter is written in the stack account.
+   */
+  readonly role?: iam.IRole
+}
+
+/**
+ * SSM ``StringList`` parameter in a region or an account other than the stack's.
+ *
+ * CloudFormation creates parameters only in the stack region and account, so the parameter is managed with the SSM
+ * API.
+ */
+export class CrossRegionParameterWriter extends Construct {
+  constructor(scope: Construct, id: string, props: CrossRegionParameterWriterProps) {
+    super(scope, id)
+
+    const putParameter: custom_resources.AwsSdkCall = {
+      service: 'SSM',
+      action: 'putParameter',
+      region: props.region,
+      assumedRoleArn: props.role?.roleArn,
+      parameters: {
+        Name: props.parameterName,
+        Description: props.description,
+        Type: 'StringList',
+        Value: cdk.Fn.join(',', props.values),
+        Overwrite: true,
+      },
+      physicalResourceId: custom_resources.PhysicalResourceId.of(props.parameterName),
+    }
+
+    new custom_resources.AwsCustomResource(this, 'Resource', {
+      onCreate: putParameter,
+      onUpdate: putParameter,
+      onDelete: {
+        service: 'SSM',
+        action: 'deleteParameter',
+        region: props.region,
+        assumedRoleArn: props.role?.roleArn,
+        parameters: { Name: props.parameterName },
+        ignoreErrorCodesMatching: 'ParameterNotFound',
+      },
+      policy: custom_resources.AwsCustomResourcePolicy.fromStatements([
+        parameterStatement(
+          this,
+          props.region,
+          props.parameterName,
+          ['ssm:PutParameter', 'ssm:DeleteParameter'],
+          props.role
+        ),
+      ]),
+      installLatestAwsSdk: false,
+    })
+  }
+}
+
+export interface CrossRegionParameterReaderProps {
+  /** Region where the parameter is read from */
+  readonly region: string
+
+  /** Name of the parameter */
+  readonly parameterName: string
+
+  /**
+   * Role to assume for reading the parameter, for example in another account.
+   *
+   * @default - The parameter is read in the stack account.
+   */
+  readonly role?: iam.IRole
+}
+
+/**
+ * Reads an SSM ``StringList`` parameter in a region or an account other than the stack's.
+ *
+ * The parameter is read when the reader is created and whenever its properties change.
+ */
+export class CrossRegionParameterReader extends Construct {
+  /** The values of the parameter */
+  public readonly values: string[]
+
+  constructor(scope: Construct, id: string, props: CrossRegionParameterReaderProps) {
+    super(scope, id)
+
+    const getParameter: custom_resources.AwsSdkCall = {
+      service: 'SSM',
+      action: 'getParameter',
+      region: props.region,
+      assumedRoleArn: props.role?.roleArn,
+      parameters: { Name: props.parameterName },
+      physicalResourceId: custom_resources.PhysicalResourceId.of(props.parameterName),
+      outputPaths: ['Parameter.Value'],
+    }
+
+    const resource = new custom_resources.AwsCustomResource(this, 'Resource', {
+      onCreate: getParameter,
+      onUpdate: getParameter,
+      policy: custom_resources.AwsCustomResourcePolicy.fromStatements([
+        parameterStatement(this, props.region, props.parameterName, ['ssm:GetParameter'], props.role),
+      ]),
+      installLatestAwsSdk: false,
+    })
+    this.values = cdk.Fn.split(',', resource.getResponseField('Parameter.Value'))
+  }
+}
+
+/**
+ * Returns the statement allowing the actions on the parameter, or the assume of the role that is used instead of the
+ * custom resource's own role.
+ */
+const parameterStatement = (
+  scope: Construct,
+  region: string,
+  parameterName: string,
+  actions: string[],
+  role?: iam.IRole
+): iam.PolicyStatement => {
+  if (role !== undefined) {
+    return new iam.PolicyStatement({
+      actions: ['sts:AssumeRole'],
+      resources: [role.roleArn],
+    })
+  }
+  return new iam.PolicyStatement({
+    actions,
+    resources: [
+      cdk.Stack.of(scope).formatArn({
+        service: 'ssm',
+        region,
+        resource: 'parameter',
+        resourceName: parameterName.replace(/^\//, ''),
+      }),
+    ],
+  })
+}
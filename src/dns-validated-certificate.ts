@@ -1,14 +1,125 @@
 import * as cdk from 'aws-cdk-lib'
+import * as acmpca from 'aws-cdk-lib/aws-acmpca'
 import * as certificatemanager from 'aws-cdk-lib/aws-certificatemanager'
 import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch'
+import * as events from 'aws-cdk-lib/aws-events'
+import * as events_targets from 'aws-cdk-lib/aws-events-targets'
 import * as iam from 'aws-cdk-lib/aws-iam'
 import * as lambda from 'aws-cdk-lib/aws-lambda'
 import * as route53 from 'aws-cdk-lib/aws-route53'
-import * as custom_resources from 'aws-cdk-lib/custom-resources'
+import * as sns from 'aws-cdk-lib/aws-sns'
+import * as ssm from 'aws-cdk-lib/aws-ssm'
 import { Construct } from 'constructs'
-import { CertificateRequestorFunction } from './certificate-requestor-function'
+import { CertificateRequestor, MAX_TOTAL_TIMEOUT, QUERY_INTERVAL, REQUESTOR_TIMEOUT } from './certificate-requestor'
 import { Properties, ValidationHostedZoneProperties } from './certificate-requestor.lambda'
-import { booleanToString, cleanDomainName, cleanHostedZoneId, matchNamesToZones } from './utils'
+import {
+  CrossRegionAlarm,
+  CrossRegionEventForwarder,
+  CrossRegionParameterReader,
+  CrossRegionParameterWriter,
+} from './cross-region'
+import {
+  booleanToString,
+  cleanDomainName,
+  DEFAULT_TIMEOUTS,
+  DRIFT_METRIC_NAME,
+  isNameInZone,
+  matchNamesToZones,
+  MAX_RESPONSE_BYTES,
+  METRIC_NAMESPACE,
+  regionalArnAttribute,
+  RENEWAL_FAILED_METRIC_NAME,
+  RENEWAL_PENDING_VALIDATION_METRIC_NAME,
+  REQUESTABLE_KEY_ALGORITHMS,
+  RESPONSE_ENVELOPE_BYTES,
+  SESSION_NAME_PATTERN,
+  validationRecordAttribute,
+} from './utils'
+import { changeValidationRecordsStatement, hostedZoneArn, normalizeHostedZoneId } from './validation-policy'
+
+/**
+ * A DNS record required for certificate validation.
+ */
+export interface ValidationRecord {
+  /**
+   * Fully-qualified name of the record.
+   */
+  readonly name: string
+
+  /**
+   * Type of the record, always ``CNAME`` for ACM validation records.
+   */
+  readonly type: string
+
+  /**
+   * Value of the record.
+   */
+  readonly value: string
+}
+
+/**
+ * A DNS validation record of a domain name in the certificate.
+ */
+export interface DomainValidationRecord extends ValidationRecord {
+  /**
+   * The domain name validated with the record.
+   */
+  readonly domainName: string
+}
+
+/**
+ * The event a ``validationRecordFunction`` is invoked with.
+ *
+ * The function must apply the change idempotently: ``UPSERT`` creates the records or updates them in place and
+ * ``DELETE`` removes them, succeeding if they are already gone. The function must throw an error when the change
+ * fails, which fails the certificate operation.
+ */
+export interface ValidationRecordFunctionEvent {
+  /**
+   * The change to apply, either ``UPSERT`` or ``DELETE``.
+   */
+  readonly action: string
+
+  /**
+   * The ``zoneName`` of the validation hosted zone the records belong to.
+   */
+  readonly zoneName: string
+
+  /**
+   * The validation records to change.
+   */
+  readonly records: ValidationRecord[]
+}
+
+/**
+ * Key algorithm of the certificate's public and private key pair.
+ *
+ * Mirrors ``KeyAlgorithm`` of the ``aws-certificatemanager`` module, which is not available in all supported CDK
+ * versions.
+ *
+ * @see https://docs.aws.amazon.com/acm/latest/userguide/acm-certificate.html#algorithms
+ */
+export class KeyAlgorithm {
+  /**
+   * RSA with a 2048 bit key, supported by all services integrated with ACM.
+   */
+  public static readonly RSA_2048 = new KeyAlgorithm('RSA_2048')
+
+  /**
+   * ECDSA with the P-256 curve, supported by CloudFront.
+   */
+  public static readonly EC_PRIME256V1 = new KeyAlgorithm('EC_prime256v1')
+
+  /**
+   * ECDSA with the P-384 curve, not supported by CloudFront.
+   */
+  public static readonly EC_SECP384R1 = new KeyAlgorithm('EC_secp384r1')
+
+  /**
+   * @param name the key algorithm name used by ACM
+   */
+  constructor(public readonly name: string) {}
+}
 
 export interface ValidationHostedZone {
   /**
@@ -17,8 +128,33 @@ export interface ValidationHostedZone {
    *
    * If the hosted zone is not managed by the CDK application, it needs to be provided via
    * ``HostedZone.fromHostedZoneAttributes()``.
+   *
+   * Either ``hostedZone`` or ``validationRecordFunction`` must be given.
+   *
+   * @default - Validation records are written with the ``validationRecordFunction``.
    */
-  readonly hostedZone: route53.IHostedZone
+  readonly hostedZone?: route53.IHostedZone
+
+  /**
+   * Name of the DNS zone managed by the ``validationRecordFunction``. The zone name is matched to domain name to
+   * use the right zone for validation.
+   *
+   * Required when ``validationRecordFunction`` is given.
+   *
+   * @default - The zone name of the ``hostedZone``.
+   */
+  readonly zoneName?: string
+
+  /**
+   * Lambda function that writes the validation records to a DNS provider other than Route 53.
+   *
+   * The function is invoked synchronously with a ``ValidationRecordFunctionEvent`` whenever the validation records
+   * are upserted or deleted. The ``customResourceRole`` or the default execution role is given permission to
+   * invoke the function.
+   *
+   * @default - Validation records are written to the Route 53 ``hostedZone``.
+   */
+  readonly validationRecordFunction?: lambda.IFunction
 
   /**
    * The role that is assumed for DNS record changes for certificate validation.
@@ -40,6 +176,170 @@ export interface ValidationHostedZone {
    * @default - No external id provided during assume.
    */
   readonly validationExternalId?: string
+
+  /**
+   * Roles that are assumed in order before the ``validationRole``, each with the credentials of the previous one.
+   *
+   * Use this when the ``validationRole`` can only be reached through intermediate roles, for example from the deploy
+   * account through a DNS hub account to the zone account. The ``customResourceRole`` or the default execution role
+   * is given permission to assume the first role and each role must be allowed to assume the next one.
+   *
+   * This should be used only when ``validationRole`` is given.
+   *
+   * @default - The ``validationRole`` is assumed directly.
+   */
+  readonly validationRoleChain?: iam.IRole[]
+
+  /**
+   * Session name for assuming the ``validationRole`` and the roles of the ``validationRoleChain``.
+   *
+   * This should be used only when ``validationRole`` is given.
+   *
+   * @default "CertificateRequestor"
+   */
+  readonly validationSessionName?: string
+
+  /**
+   * Session tags for assuming the ``validationRole`` and the roles of the ``validationRoleChain``.
+   *
+   * The trust policies of the roles must allow ``sts:TagSession``. This should be used only when ``validationRole``
+   * is given.
+   *
+   * @default - No session tags.
+   */
+  readonly validationSessionTags?: Record<string, string>
+
+  /**
+   * Limit the ``validationRole`` session with an inline session policy.
+   *
+   * The session policy allows only the changes of the ``CNAME`` validation records of the certificate's domain names
+   * in the ``hostedZone``, with the same conditions the ``customResourceRole`` gets for a hosted zone without
+   * ``validationRole``. The effective permissions are the intersection of the session policy and the role's own
+   * policies. This should be used only when ``validationRole`` is given.
+   *
+   * @default false
+   */
+  readonly validationSessionPolicy?: boolean
+}
+
+/**
+ * A certificate that knows the region it is deployed to.
+ */
+export interface IDnsValidatedCertificate extends certificatemanager.ICertificate {
+  /**
+   * The region where the certificate is deployed to.
+   *
+   * @attribute
+   */
+  readonly certificateRegion: string
+}
+
+/**
+ * Attributes of an existing certificate to import.
+ */
+export interface DnsValidatedCertificateAttributes {
+  /**
+   * The certificate's ARN.
+   */
+  readonly certificateArn: string
+
+  /**
+   * The region where the certificate is deployed to.
+   *
+   * @default - The region of the ``certificateArn``.
+   */
+  readonly certificateRegion?: string
+}
+
+/**
+ * Options for exporting the certificate to an SSM parameter.
+ */
+export interface SsmParameterExportOptions {
+  /**
+   * Name of the parameter, such as ``/certificates/cdn``.
+   */
+  readonly parameterName: string
+
+  /**
+   * Region where the parameter is written.
+   *
+   * @default - The stack region.
+   */
+  readonly region?: string
+
+  /**
+   * Role to assume for writing the parameter in another account.
+   *
+   * The role must trust the account of this stack and allow ``ssm:PutParameter`` and ``ssm:DeleteParameter`` on the
+   * parameter.
+   *
+   * @default - The parameter is written in the stack account.
+   */
+  readonly role?: iam.IRole
+}
+
+/**
+ * Attributes of a certificate exported to an SSM parameter.
+ */
+export interface SsmParameterImportAttributes {
+  /**
+   * Name of the parameter the certificate was exported to.
+   */
+  readonly parameterName: string
+
+  /**
+   * Region where the parameter is read from.
+   *
+   * @default - The stack region.
+   */
+  readonly region?: string
+
+  /**
+   * Role to assume for reading the parameter in another account.
+   *
+   * The role must trust the account of this stack and allow ``ssm:GetParameter`` on the parameter.
+   *
+   * @default - The parameter is read in the stack account.
+   */
+  readonly role?: iam.IRole
+}
+
+/**
+ * Options for the certificate expiry alarm.
+ */
+export interface ExpiryAlarmOptions {
+  /**
+   * The alarm goes to the ALARM state when the certificate expires in less than this many days.
+   *
+   * ACM starts the renewal 60 days before the expiry, so the alarm indicates a renewal that has not succeeded.
+   *
+   * @default 45
+   */
+  readonly threshold?: number
+
+  /**
+   * Actions when the alarm goes to the ALARM state.
+   *
+   * When ``certificateRegion`` differs from the stack region, the alarm is created in ``certificateRegion`` and the
+   * actions must be in that region too, for example an SNS topic imported with ``Topic.fromTopicArn()``.
+   *
+   * @default - No actions.
+   */
+  readonly actions?: cloudwatch.IAlarmAction[]
+
+  /**
+   * Name of the alarm.
+   *
+   * @default - A unique name generated by CloudFormation or derived from the construct path.
+   */
+  readonly alarmName?: string
+
+  /**
+   * Description of the alarm.
+   *
+   * @default - A description naming the certificate and the threshold.
+   */
+  readonly alarmDescription?: string
 }
 
 export interface DnsValidatedCertificateProps {
@@ -59,8 +359,48 @@ export interface DnsValidatedCertificateProps {
 
   /**
    * List of hosted zones to use for validation. Hosted zones are mapped to domain names by the zone name.
+   *
+   * Required for DNS validation.
+   *
+   * @default - No hosted zones, allowed only with email validation or a ``certificateAuthority``.
    */
-  readonly validationHostedZones: ValidationHostedZone[]
+  readonly validationHostedZones?: ValidationHostedZone[]
+
+  /**
+   * Private certificate authority that issues a private certificate.
+   *
+   * Private certificates are not validated, so ``validationHostedZones`` and ``validationMethod`` must not be given.
+   * The requestor is given permission to issue certificates from the certificate authority. The certificate authority
+   * must be in ``certificateRegion``. For ACM to renew the certificate automatically, the certificate authority must
+   * allow ACM to issue certificates.
+   *
+   * @see https://docs.aws.amazon.com/privateca/latest/userguide/PcaPermissions.html
+   *
+   * @default - A public certificate is requested.
+   */
+  readonly certificateAuthority?: acmpca.ICertificateAuthority
+
+  /**
+   * Method used to validate the domain ownership.
+   *
+   * With ``ValidationMethod.EMAIL`` approval emails are sent by ACM to the domain contacts and the Route 53 handling
+   * is skipped. As the approval can take a long time, email validation requires ``totalTimeout`` and the certificate
+   * must be approved within it.
+   *
+   * @default ValidationMethod.DNS
+   */
+  readonly validationMethod?: certificatemanager.ValidationMethod
+
+  /**
+   * Validation domains to use for the domain names with email validation.
+   *
+   * The key is the domain name and the value is the domain where the approval emails are sent, which must be the same
+   * as the domain name or its superdomain. This should be used only when ``validationMethod`` is
+   * ``ValidationMethod.EMAIL``.
+   *
+   * @default - Approval emails are sent to the domain name itself.
+   */
+  readonly validationDomains?: { [domainName: string]: string }
 
   /**
    * AWS region where the certificate is deployed.
@@ -72,6 +412,18 @@ export interface DnsValidatedCertificateProps {
    */
   readonly certificateRegion?: string
 
+  /**
+   * Additional AWS regions where the same certificate is deployed.
+   *
+   * A separate certificate is requested in each region by the same custom resource, for example in ``us-east-1`` for
+   * CloudFront and in the stack's region for a load balancer. The certificates share the validation records, which
+   * are written only once. Use ``certificateArnForRegion()`` or ``certificateForRegion()`` to reference the
+   * certificate in a given region. Changing the regions requests new certificates in all regions.
+   *
+   * @default - The certificate is deployed only to ``certificateRegion``.
+   */
+  readonly additionalCertificateRegions?: string[]
+
   /**
    * The role that is used for the custom resource Lambda execution.
    *
@@ -79,27 +431,84 @@ export interface DnsValidatedCertificateProps {
    * this role is also given permission to assume the ``validationRole``. Otherwise it is assumed that the hosted zone
    * is in same account and the execution role is given permissions to change DNS records for the given ``domainName``.
    *
+   * With ``sharedRequestor`` the certificates in the same stack using the same role share the custom resource
+   * Lambda. Each certificate extends the role's policy with the permissions it needs.
+   *
    * @default - Lambda creates a default execution role.
    */
   readonly customResourceRole?: iam.IRole
 
+  /**
+   * Share the custom resource Lambda and provider with the other certificates in the stack using this option with
+   * the same ``customResourceRole`` and ``totalTimeout``.
+   *
+   * Sharing avoids a Lambda function and a provider per certificate in stacks with many certificates. The service
+   * token of a custom resource cannot change, so enabling or disabling this for a deployed certificate fails the
+   * update. Use it only for new certificates, or replace the certificate by changing its construct id.
+   *
+   * @default false
+   */
+  readonly sharedRequestor?: boolean
+
   /**
    * Enable or disable cleaning of validation DNS records from the hosted zone.
    *
-   * If there's multiple certificates created for same domain, it is possible to encouter a race condition where some
-   * certificate is removed and another certificate would need the same validation record. Prefer single certificate
-   * for a domain or set this to false and cleanup records manually when not needed anymore. If you change this
-   * property after creation, a new certificate will be requested.
+   * ACM uses the same validation record for a domain name in all certificates of an account. Before a validation
+   * record is deleted, the issued and pending certificates in ``certificateRegion`` and ``recordReferenceRegions`` are
+   * checked, and records still referenced by another certificate are kept. This property can be changed after
+   * creation without requesting a new certificate.
    *
    * @default true
    */
   readonly cleanupValidationRecords?: boolean
 
+  /**
+   * Additional regions whose certificates are checked for references to the validation records before the records
+   * are deleted.
+   *
+   * Certificates for the same domain names in other regions use the same validation records, so the regions where
+   * such certificates exist should be listed to keep their records. This property can be changed after creation
+   * without requesting a new certificate.
+   *
+   * @default - Only certificates in ``certificateRegion`` are checked.
+   */
+  readonly recordReferenceRegions?: string[]
+
+  /**
+   * Schedule for checking that the validation records still exist and that the managed renewal is not stuck.
+   *
+   * ACM managed renewal fails if the validation records are removed from the hosted zones. On schedule, the requestor
+   * function reads the records from the Route 53 hosted zones, restores the missing and changed ones and publishes
+   * the number of drifted records as the ``ValidationRecordDrift`` metric, see ``metricValidationRecordDrift()``.
+   * It also inspects the renewal status of the certificate, re-applies the validation records of a renewal that is
+   * pending validation or has failed, and publishes the status as the ``RenewalPendingValidation`` and
+   * ``RenewalFailed`` metrics, see ``metricRenewalPendingValidation()`` and ``metricRenewalFailed()``.
+   * A ``validationRole`` must also allow ``route53:ListResourceRecordSets``. With ``validationSessionPolicy``, the
+   * session is limited to the upserts of the restored records. Records written with a ``validationRecordFunction``
+   * are not checked. This can be used only with DNS validation.
+   *
+   * @default - The validation records are not checked after the certificate is created.
+   */
+  readonly reconcileSchedule?: events.Schedule
+
+  /**
+   * Enable or disable deleting the certificate when it fails to validate.
+   *
+   * The validation fails when ACM reports the certificate or any of its domains as failed, for example when a CAA
+   * record does not allow Amazon to issue certificates for the domain, or when the certificate is not validated
+   * within the validation timeout. The failed certificate and its validation records, subject to
+   * ``cleanupValidationRecords``, are deleted so that rollbacks do not leave pending certificates in ACM. This
+   * property can be changed after creation without requesting a new certificate.
+   *
+   * @default true
+   */
+  readonly cleanupFailedCertificate?: boolean
+
   /**
    * Enable or disable transparency logging for this certificate.
    *
    * Once a certificate has been logged, it cannot be removed from the log. Opting out at that point will have no
-   * effect. If you change this property after creation, a new certificate will be requested.
+   * effect. This property can be changed after creation without requesting a new certificate.
    *
    * @see https://docs.aws.amazon.com/acm/latest/userguide/acm-bestpractices.html#best-practices-transparency
    *
@@ -107,28 +516,155 @@ export interface DnsValidatedCertificateProps {
    */
   readonly transparencyLoggingEnabled?: boolean
 
+  /**
+   * Key algorithm of the certificate.
+   *
+   * ACM issues requested certificates only with ``RSA_2048``, ``EC_prime256v1`` or ``EC_secp384r1`` keys, and
+   * CloudFront supports only ``RSA_2048`` and ``EC_prime256v1``. A private certificate must use the same algorithm
+   * family as the key of the ``certificateAuthority``. Changing the key algorithm requests a new certificate.
+   *
+   * @default KeyAlgorithm.RSA_2048
+   */
+  readonly keyAlgorithm?: KeyAlgorithm
+
+  /**
+   * Adopt an existing certificate instead of requesting a new one.
+   *
+   * When the certificate is created, the certificates in ``certificateRegion`` are searched for an Amazon issued, DNS
+   * validated certificate that has exactly the same ``domainName``, ``alternativeDomainNames`` and ``keyAlgorithm`` and
+   * that is either issued or pending validation. Issued certificates are preferred over pending ones and the
+   * certificate with the longest validity is adopted. The validation records of the adopted certificate are created
+   * if they are missing. A new certificate is requested only if there is no matching certificate.
+   *
+   * The adopted certificate is managed like any certificate requested by this construct, so it is deleted according
+   * to the ``removalPolicy``. Make sure the same certificate is not adopted by multiple constructs.
+   *
+   * @default false
+   */
+  readonly adoptExisting?: boolean
+
+  /**
+   * Tags an existing certificate must have to be adopted.
+   *
+   * This should be used only when ``adoptExisting`` is enabled.
+   *
+   * @default - Certificates are adopted regardless of their tags.
+   */
+  readonly adoptionTags?: { [key: string]: string }
+
+  /**
+   * Export the DNS validation records as stack outputs.
+   *
+   * The outputs are created in the scope of this construct with ids ``ValidationRecord<index>Name``, ``...Type``
+   * and ``...Value`` for each domain name in the order of ``domainName`` followed by ``alternativeDomainNames``. The
+   * records are available with ``validationRecords`` regardless of this property. This should be used only with DNS
+   * validation.
+   *
+   * @default false
+   */
+  readonly validationRecordOutputs?: boolean
+
   /**
    * Apply the given removal policy to this resource.
    *
    * The removal policy controls what happens to this resource when it stops being managed by CloudFormation, either
    * because you've removed it from the CDK application or because you've made a change that requires the resource to
    * be replaced. The resource can be deleted (``RemovalPolicy.DESTROY``), or left in your AWS account for data
-   * recovery and cleanup later (``RemovalPolicy.RETAIN``). If you change this property after creation, a new
-   * certificate will be requested.
+   * recovery and cleanup later (``RemovalPolicy.RETAIN``). This property can be changed after creation without
+   * requesting a new certificate.
    *
    * @default RemovalPolicy.DESTROY
    */
   readonly removalPolicy?: cdk.RemovalPolicy
+
+  /**
+   * The removal policy for certificates replaced by a new certificate on update.
+   *
+   * A change of for example the domain names requests a new certificate and CloudFormation deletes the previous one.
+   * The replaced certificate is tagged with ``DnsValidatedCertificate:SupersededBy``,
+   * ``DnsValidatedCertificate:SupersededAt`` and ``DnsValidatedCertificate:ReplacementRemovalPolicy``, and the new
+   * certificate tracks it with a ``DnsValidatedCertificate:Supersedes:<certificate id>`` tag. Replaced certificates
+   * that fail to be deleted, for example because they are still in use, are deleted on a later update of the
+   * certificate once they are unused. This property can be changed after creation without requesting a new
+   * certificate.
+   *
+   * @default - Same as ``removalPolicy``.
+   */
+  readonly replacementRemovalPolicy?: cdk.RemovalPolicy
+
+  /**
+   * Maximum time to wait for the certificate to validate or, on deletion, for the certificate to become unused.
+   *
+   * When given, the custom resource completes asynchronously. The certificate is requested and the validation records
+   * are created by the first Lambda invocation, after which the custom resource provider polls the validation and
+   * deletion until they complete or this timeout is reached. This allows waiting for slow DNS propagation or long-lived
+   * CloudFront associations. The timeout can be at most 2 hours and it must be a multiple of 30 seconds.
+   *
+   * With ``sharedRequestor`` the certificates in the same stack using the same role and timeout share the custom
+   * resource provider.
+   *
+   * @default - Certificate validation and deletion complete synchronously within a single Lambda invocation.
+   */
+  readonly totalTimeout?: cdk.Duration
+
+  /**
+   * Maximum time to wait for ACM to provide the DNS validation records after the certificate has been requested.
+   * The timeout applies to each certificate region separately.
+   *
+   * @default Duration.minutes(3)
+   */
+  readonly validationRecordsTimeout?: cdk.Duration
+
+  /**
+   * Maximum time to wait for the validation record changes to propagate to all Route 53 DNS servers. The timeout
+   * applies to each hosted zone separately.
+   *
+   * @default Duration.minutes(3)
+   */
+  readonly recordSyncTimeout?: cdk.Duration
+
+  /**
+   * Maximum time to wait for the certificate to validate after the validation records have been created. The
+   * timeout applies to each certificate region separately.
+   *
+   * Cannot be used with ``totalTimeout``, which limits the asynchronous validation instead.
+   *
+   * @default Duration.minutes(5)
+   */
+  readonly validationTimeout?: cdk.Duration
+
+  /**
+   * Maximum time to wait for the certificate to become unused before it is deleted. The timeout applies to each
+   * certificate region separately.
+   *
+   * Cannot be used with ``totalTimeout``, which limits the asynchronous deletion instead.
+   *
+   * @default Duration.minutes(10)
+   */
+  readonly usageDrainTimeout?: cdk.Duration
+
+  /**
+   * Maximum interval between the polls while waiting for the validation records or the certificate usage to drain.
+   * The interval grows exponentially from a fraction of a second up to this value.
+   *
+   * @default Duration.seconds(30)
+   */
+  readonly maxPollingInterval?: cdk.Duration
 }
 
 const DNS_VALIDATED_CERTIFICATE_TYPE = 'Custom::DnsValidatedCertificate'
 const CERTTIFICATE_RESOURCE_TYPE = 'AWS::CertificateManager::Certificate'
 
+// estimated sizes of the custom resource response data, validation records add the length of their domain name
+const ESTIMATED_DETAILS_BYTES = 350
+const ESTIMATED_REGION_BYTES = 200
+const ESTIMATED_RECORD_BYTES = 200
+
 /**
  * A certificate managed by AWS Certificate Manager. Will be automatically validated using DNS validation against the
- * specified Route 53 hosted zone. This construct should be used only for cross-region or cross-account certificate
- * validations. The default ``Certificate`` construct is better in cases where everything is managed by the CDK
- * application.
+ * specified Route 53 hosted zone, or alternatively by approving the emails sent by ACM with email validation. This
+ * construct should be used only for cross-region or cross-account certificate validations. The default ``Certificate``
+ * construct is better in cases where everything is managed by the CDK application.
  *
  * Please note that this construct does not support alternative names yet as it would require domain to role mapping.
  *
@@ -190,19 +726,118 @@ const CERTTIFICATE_RESOURCE_TYPE = 'AWS::CertificateManager::Certificate'
  * @resource Custom::DnsValidatedCertificate
  * @resource AWS::CertificateManager::Certificate
  */
-export class DnsValidatedCertificate extends cdk.Resource implements certificatemanager.ICertificate, cdk.ITaggable {
+export class DnsValidatedCertificate extends cdk.Resource implements IDnsValidatedCertificate, cdk.ITaggable {
+  /**
+   * Imports an existing certificate, for example one created by ``DnsValidatedCertificate`` in another stack.
+   *
+   * The imported certificate's ``metricDaysToExpiry()`` reads the metric from the certificate's region like the
+   * construct does.
+   *
+   * @param scope construct hosting the imported certificate
+   * @param id construct's identifier
+   * @param attrs attributes of the certificate
+   */
+  public static fromCertificateAttributes(
+    scope: Construct,
+    id: string,
+    attrs: DnsValidatedCertificateAttributes
+  ): IDnsValidatedCertificate {
+    const certificateRegion =
+      attrs.certificateRegion ??
+      cdk.Stack.of(scope).splitArn(attrs.certificateArn, cdk.ArnFormat.SLASH_RESOURCE_NAME).region
+    // the region of a concrete ARN without one is split as an empty string
+    if (!certificateRegion) {
+      throw new Error(`Certificate ARN ${attrs.certificateArn} does not contain a region`)
+    }
+    return new RegionalCertificate(scope, id, attrs.certificateArn, certificateRegion)
+  }
+
+  /**
+   * Imports a certificate exported with ``addSsmParameterExport()``, possibly from another region or account.
+   *
+   * A parameter in the stack region and account is resolved by CloudFormation on every deployment. Otherwise the
+   * parameter is read with a custom resource, which reads it again only when the attributes change.
+   *
+   * @param scope construct hosting the imported certificate
+   * @param id construct's identifier
+   * @param attrs attributes of the parameter
+   */
+  public static fromSsmParameter(
+    scope: Construct,
+    id: string,
+    attrs: SsmParameterImportAttributes
+  ): IDnsValidatedCertificate {
+    const stack = cdk.Stack.of(scope)
+    if ((attrs.region === undefined || attrs.region === stack.region) && attrs.role === undefined) {
+      const values = ssm.StringListParameter.valueForTypedListParameter(scope, attrs.parameterName)
+      return new RegionalCertificate(scope, id, cdk.Fn.select(0, values), cdk.Fn.select(1, values))
+    }
+    const reader = new CrossRegionParameterReader(scope, id, {
+      region: attrs.region ?? stack.region,
+      parameterName: attrs.parameterName,
+      role: attrs.role,
+    })
+    return new RegionalCertificate(
+      reader,
+      'Certificate',
+      cdk.Fn.select(0, reader.values),
+      cdk.Fn.select(1, reader.values)
+    )
+  }
+
   /** The certificate's ARN */
   public readonly certificateArn: string
 
   /** The region where the certificate is deployed to */
   public readonly certificateRegion: string
 
+  /**
+   * The DNS validation records for the domain names in the order of ``domainName`` followed by
+   * ``alternativeDomainNames``. Empty with email validation.
+   *
+   * The records are returned in the custom resource response, which is limited to 4096 bytes. With more than about
+   * ten domain names in a single region the records are left out and reading them fails the deployment.
+   */
+  public readonly validationRecords: DomainValidationRecord[]
+
+  /**
+   * The end of the certificate's validity period as an ISO 8601 timestamp.
+   *
+   * The certificate details are read from the certificate in ``certificateRegion`` after it is validated, and they
+   * are refreshed only when the certificate resource is updated.
+   */
+  public readonly notAfter: string
+
+  /** The start of the certificate's validity period as an ISO 8601 timestamp */
+  public readonly notBefore: string
+
+  /** The serial number of the certificate */
+  public readonly serial: string
+
+  /**
+   * The validation status of the certificate's domains: ``SUCCESS`` when all domains are validated, otherwise
+   * ``PENDING_VALIDATION`` or ``FAILED``. Empty for private certificates.
+   */
+  public readonly domainValidationStatus: string
+
+  /** The key algorithm of the certificate, such as ``RSA_2048`` */
+  public readonly keyAlgorithm: string
+
+  /** The name of the certificate authority that issued the certificate */
+  public readonly issuer: string
+
   /** The tag manager to set, remove and format tags for the certificate  */
   public readonly tags: cdk.TagManager
 
   /** The removal policy for the certificate */
   private removalPolicy: cdk.RemovalPolicy
 
+  /** The custom resource managing the certificates */
+  private readonly resource: cdk.CustomResource
+
+  /** The additional regions where the certificate is deployed to */
+  private readonly additionalCertificateRegions: string[]
+
   /**
    * Creates an instance of DnsValidatedCertificate construct.
    *
@@ -220,85 +855,107 @@ export class DnsValidatedCertificate extends cdk.Resource implements certificate
     const allDomains = [domainName, ...(alternativeDomainNames ?? [])]
 
     this.certificateRegion = props.certificateRegion ?? this.stack.region
+    this.additionalCertificateRegions = props.additionalCertificateRegions ?? []
     this.tags = new cdk.TagManager(cdk.TagType.MAP, CERTTIFICATE_RESOURCE_TYPE)
     this.removalPolicy = props.removalPolicy ?? cdk.RemovalPolicy.DESTROY
 
-    const requestorFunction = new CertificateRequestorFunction(this, 'RequestorFunction', {
-      architecture: lambda.Architecture.ARM_64,
-      timeout: cdk.Duration.minutes(14),
-      role: props.customResourceRole,
-    })
+    if (props.totalTimeout !== undefined) {
+      this.validateTotalTimeout(props.totalTimeout)
+    }
 
-    requestorFunction.addToRolePolicy(
-      new iam.PolicyStatement({
-        effect: iam.Effect.ALLOW,
-        actions: [
-          'acm:RequestCertificate',
-          'acm:DescribeCertificate',
-          'acm:DeleteCertificate',
-          'acm:AddTagsToCertificate',
-        ],
-        resources: ['*'],
-      })
-    )
+    const requestorProps = { role: props.customResourceRole, totalTimeout: props.totalTimeout }
+    const requestor = props.sharedRequestor
+      ? CertificateRequestor.of(this, requestorProps)
+      : CertificateRequestor.forCertificate(this, requestorProps)
 
-    const domainsToZones = matchNamesToZones(
-      props.validationHostedZones.map((zone) => zone.hostedZone.zoneName),
-      allDomains,
-      (domain) => domain
-    )
-    const hostedZonesWithRole = props.validationHostedZones.filter((zone) => zone.validationRole !== undefined)
-    const hostedZonesWithoutRole = props.validationHostedZones.filter((zone) => zone.validationRole === undefined)
+    const validationMethod = props.validationMethod ?? certificatemanager.ValidationMethod.DNS
+    const dnsValidation =
+      props.certificateAuthority === undefined && validationMethod === certificatemanager.ValidationMethod.DNS
+
+    if (props.certificateAuthority !== undefined) {
+      requestor.addToRolePolicy(
+        new iam.PolicyStatement({
+          actions: ['acm-pca:IssueCertificate'],
+          resources: [props.certificateAuthority.certificateAuthorityArn],
+        })
+      )
+    }
+    const hostedZones = dnsValidation ? props.validationHostedZones ?? [] : []
+
+    const nameOfZone = (zone: ValidationHostedZone) => zone.zoneName ?? zone.hostedZone?.zoneName ?? ''
+    const domainsToZones = matchNamesToZones(hostedZones.map(nameOfZone), allDomains, (domain) => domain)
+    const route53Zones = hostedZones.filter((zone) => zone.validationRecordFunction === undefined)
+    const functionZones = hostedZones.filter((zone) => zone.validationRecordFunction !== undefined)
+    const hostedZonesWithRole = route53Zones.filter((zone) => zone.validationRole !== undefined)
+    const hostedZonesWithoutRole = route53Zones.filter((zone) => zone.validationRole === undefined)
+
+    functionZones.forEach((zone) => {
+      zone.validationRecordFunction!.grantInvoke(requestor.function)
+    })
 
     hostedZonesWithRole.forEach((zone) => {
-      requestorFunction.addToRolePolicy(
+      const firstRole = zone.validationRoleChain?.[0] ?? zone.validationRole!
+      requestor.addToRolePolicy(
         new iam.PolicyStatement({
           effect: iam.Effect.ALLOW,
-          actions: ['sts:AssumeRole'],
-          resources: [zone.validationRole!.roleArn],
+          actions: zone.validationSessionTags !== undefined ? ['sts:AssumeRole', 'sts:TagSession'] : ['sts:AssumeRole'],
+          resources: [firstRole.roleArn],
         })
       )
     })
 
     hostedZonesWithoutRole.forEach((zone) => {
-      requestorFunction.addToRolePolicy(
+      if (zone.hostedZone === undefined) {
+        return
+      }
+      const hostedZone = zone.hostedZone
+      requestor.addToRolePolicy(
         new iam.PolicyStatement({
           actions: ['route53:GetChange'],
           resources: ['*'],
         })
       )
-      const domainNames = domainsToZones[zone.hostedZone.zoneName]
+      const domainNames = domainsToZones[nameOfZone(zone)]
       if (domainNames && domainNames.length > 0) {
-        requestorFunction.addToRolePolicy(
-          new iam.PolicyStatement({
-            actions: ['route53:ChangeResourceRecordSets'],
-            resources: [`arn:aws:route53:::hostedzone/${this.normalizeHostedZoneId(zone.hostedZone.hostedZoneId)}`],
-            conditions: {
-              'ForAllValues:StringEquals': {
-                'route53:ChangeResourceRecordSetsRecordTypes': ['CNAME'],
-                'route53:ChangeResourceRecordSetsActions': ['UPSERT', 'DELETE'],
-              },
-              'ForAllValues:StringLike': {
-                'route53:ChangeResourceRecordSetsNormalizedRecordNames': domainNames.map((name, index) => {
-                  return this.wildcardDomainName(`DomainWildcard${zone.hostedZone.node.id}${index}`, name)
-                }),
-              },
-            },
-          })
-        )
+        requestor.addToRolePolicy(changeValidationRecordsStatement(this, hostedZone, domainNames))
       }
     })
 
-    const requestorProvider = new custom_resources.Provider(this, 'RequestorProvider', {
-      onEventHandler: requestorFunction,
-    })
+    const sessionPolicy = (zone: ValidationHostedZone): string | undefined => {
+      if (!zone.validationSessionPolicy || zone.validationRole === undefined || zone.hostedZone === undefined) {
+        return undefined
+      }
+      const document = new iam.PolicyDocument({
+        statements: [
+          new iam.PolicyStatement({ actions: ['route53:GetChange'], resources: ['*'] }),
+          new iam.PolicyStatement({
+            actions: ['route53:ListResourceRecordSets'],
+            resources: [hostedZoneArn(zone.hostedZone)],
+          }),
+        ],
+      })
+      const domainNames = domainsToZones[nameOfZone(zone)]
+      if (domainNames && domainNames.length > 0) {
+        document.addStatements(changeValidationRecordsStatement(this, zone.hostedZone, domainNames))
+      }
+      return this.stack.toJsonString(document)
+    }
 
-    const validationHostedZones = props.validationHostedZones.map<[string, ValidationHostedZoneProperties]>((zone) => {
+    const validationHostedZones = hostedZones.map<[string, ValidationHostedZoneProperties]>((zone) => {
+      const recordFunction = zone.validationRecordFunction
       const properties: ValidationHostedZoneProperties = {
-        DomainName: this.normalizeDomainName(zone.hostedZone.zoneName),
-        HostedZoneId: this.normalizeHostedZoneId(zone.hostedZone.hostedZoneId),
+        DomainName: this.normalizeDomainName(nameOfZone(zone)),
+        HostedZoneId:
+          recordFunction === undefined && zone.hostedZone !== undefined
+            ? normalizeHostedZoneId(zone.hostedZone.hostedZoneId)
+            : undefined,
         ValidationRoleArn: zone.validationRole?.roleArn,
         ValidationExternalId: zone.validationExternalId,
+        ValidationRoleChain: zone.validationRoleChain?.map((role) => role.roleArn),
+        ValidationSessionName: zone.validationSessionName,
+        ValidationSessionTags: zone.validationSessionTags,
+        ValidationSessionPolicy: sessionPolicy(zone),
+        ValidationFunctionArn: recordFunction?.functionArn,
       }
       return [properties.DomainName, properties]
     })
@@ -307,15 +964,32 @@ export class DnsValidatedCertificate extends cdk.Resource implements certificate
       DomainName: domainName,
       AlternativeDomainNames: alternativeDomainNames,
       ValidationHostedZones: Object.fromEntries(validationHostedZones),
+      ValidationMethod: props.certificateAuthority === undefined ? validationMethod : undefined,
+      CertificateAuthorityArn: props.certificateAuthority?.certificateAuthorityArn,
+      ValidationDomains: props.validationDomains,
       CertificateRegion: this.certificateRegion,
+      AdditionalCertificateRegions: props.additionalCertificateRegions,
       CleanupValidationRecords: booleanToString(props.cleanupValidationRecords ?? true),
+      CleanupFailedCertificate: booleanToString(props.cleanupFailedCertificate ?? true),
+      RecordReferenceRegions: props.recordReferenceRegions,
       TransparencyLoggingEnabled: booleanToString(props.transparencyLoggingEnabled ?? true),
+      KeyAlgorithm: props.keyAlgorithm?.name,
+      AdoptExisting: booleanToString(props.adoptExisting ?? false),
+      AdoptionTags: props.adoptionTags,
       Tags: cdk.Lazy.any({ produce: () => this.tags.renderTags() }) as unknown as Record<string, string>,
       RemovalPolicy: cdk.Lazy.string({ produce: () => this.removalPolicy }),
+      ReplacementRemovalPolicy: cdk.Lazy.string({
+        produce: () => props.replacementRemovalPolicy ?? this.removalPolicy,
+      }),
+      ValidationRecordsTimeout: props.validationRecordsTimeout?.toSeconds().toString(),
+      RecordSyncTimeout: props.recordSyncTimeout?.toSeconds().toString(),
+      ValidationTimeout: props.validationTimeout?.toSeconds().toString(),
+      UsageDrainTimeout: props.usageDrainTimeout?.toSeconds().toString(),
+      MaxPollingInterval: props.maxPollingInterval?.toSeconds().toString(),
     }
 
     const certificate = new cdk.CustomResource(this, 'RequestorResource', {
-      serviceToken: requestorProvider.serviceToken,
+      serviceToken: requestor.provider.serviceToken,
       resourceType: DNS_VALIDATED_CERTIFICATE_TYPE,
       properties,
     })
@@ -323,39 +997,303 @@ export class DnsValidatedCertificate extends cdk.Resource implements certificate
     // Ensure CloudFormation deletes the custom resource before the Lambda
     // function and its IAM policies. CloudFormation may delete them in
     // parallel during stack deletion, causing the DELETE handler to fail
-    // because the Lambda's ACM permissions have already been removed.
-    certificate.node.addDependency(requestorFunction)
-    if (requestorFunction.role !== undefined) {
-      certificate.node.addDependency(requestorFunction.role)
-      const policy = requestorFunction.role.node.tryFindChild('DefaultPolicy')
-      if (policy !== undefined) {
-        certificate.node.addDependency(policy)
+    // because the Lambda's ACM permissions have already been removed. A
+    // shared requestor is kept until every certificate using it is deleted.
+    certificate.node.addDependency(...requestor.dependables())
+
+    this.resource = certificate
+    this.certificateArn = certificate.getAttString('Arn')
+    this.notAfter = certificate.getAttString('NotAfter')
+    this.notBefore = certificate.getAttString('NotBefore')
+    this.serial = certificate.getAttString('Serial')
+    this.domainValidationStatus = certificate.getAttString('DomainValidationStatus')
+    this.keyAlgorithm = certificate.getAttString('KeyAlgorithm')
+    this.issuer = certificate.getAttString('Issuer')
+
+    this.validationRecords = dnsValidation
+      ? allDomains.map((domain, index) => ({
+          domainName: domain,
+          name: certificate.getAttString(validationRecordAttribute(index, 'Name')),
+          type: certificate.getAttString(validationRecordAttribute(index, 'Type')),
+          value: certificate.getAttString(validationRecordAttribute(index, 'Value')),
+        }))
+      : []
+    if (dnsValidation) {
+      this.warnResponseSize(allDomains, 1 + this.additionalCertificateRegions.length)
+    }
+    this.warnKeyAlgorithm(props.keyAlgorithm)
+
+    if (props.reconcileSchedule !== undefined && dnsValidation) {
+      hostedZonesWithoutRole.forEach((zone) => {
+        if (zone.hostedZone !== undefined) {
+          requestor.addToRolePolicy(
+            new iam.PolicyStatement({
+              actions: ['route53:ListResourceRecordSets'],
+              resources: [hostedZoneArn(zone.hostedZone)],
+            })
+          )
+        }
+      })
+      // the session policies do not fit in the rule target input, the requestor rebuilds them for the records
+      const reconcileZones = validationHostedZones.map<[string, ValidationHostedZoneProperties]>(
+        ([zoneName, { ValidationSessionPolicy, ...zone }]) => [
+          zoneName,
+          {
+            ...zone,
+            ValidationRecordSessionPolicy: ValidationSessionPolicy !== undefined ? 'true' : undefined,
+          },
+        ]
+      )
+      const reconcileProperties: Partial<Properties> = {
+        DomainName: properties.DomainName,
+        AlternativeDomainNames: properties.AlternativeDomainNames,
+        ValidationHostedZones: Object.fromEntries(reconcileZones),
+        ValidationMethod: properties.ValidationMethod,
+        CertificateRegion: properties.CertificateRegion,
+        AdditionalCertificateRegions: properties.AdditionalCertificateRegions,
+        RecordSyncTimeout: properties.RecordSyncTimeout,
+        MaxPollingInterval: properties.MaxPollingInterval,
       }
+      new events.Rule(this, 'ReconcileSchedule', {
+        description: `Checks the validation records of certificate ${this.node.path}`,
+        schedule: props.reconcileSchedule,
+        targets: [
+          new events_targets.LambdaFunction(requestor.function, {
+            event: events.RuleTargetInput.fromObject({
+              RequestType: 'Reconcile',
+              PhysicalResourceId: certificate.ref,
+              ResourceProperties: reconcileProperties,
+            }),
+          }),
+        ],
+      })
     }
 
-    this.certificateArn = certificate.getAttString('Arn')
+    if (props.validationRecordOutputs) {
+      this.validationRecords.forEach((record, index) => {
+        const description = (field: string) =>
+          cdk.Token.isUnresolved(record.domainName)
+            ? `Validation record ${field} for domain ${index} of certificate ${this.node.path}`
+            : `Validation record ${field} for ${record.domainName}`
+        new cdk.CfnOutput(this, `ValidationRecord${index}Name`, {
+          value: record.name,
+          description: description('name'),
+        })
+        new cdk.CfnOutput(this, `ValidationRecord${index}Type`, {
+          value: record.type,
+          description: description('type'),
+        })
+        new cdk.CfnOutput(this, `ValidationRecord${index}Value`, {
+          value: record.value,
+          description: description('value'),
+        })
+      })
+    }
 
     this.node.addValidation({
-      validate: () =>
-        this.validateDomainsToHostedZones(
-          allDomains,
-          validationHostedZones.map(([zoneName, _]) => zoneName)
-        ),
+      validate: () => this.validateValidationMethod(props, validationMethod),
+    })
+
+    if (dnsValidation) {
+      this.node.addValidation({
+        validate: () =>
+          this.validateDomainsToHostedZones(
+            allDomains,
+            validationHostedZones.map(([zoneName, _]) => zoneName)
+          ),
+      })
+    }
+
+    // the timeouts are checked eagerly, as a check with only the default timeouts adds a warning
+    const timeoutErrors = this.validateTimeouts(
+      props,
+      route53Zones.length,
+      1 + this.additionalCertificateRegions.length
+    )
+    this.node.addValidation({
+      validate: () => timeoutErrors,
+    })
+
+    this.node.addValidation({
+      validate: () => this.validateCertificateRegions(),
+    })
+
+    this.node.addValidation({
+      validate: () => this.validateKeyAlgorithm(props.keyAlgorithm),
     })
   }
 
   metricDaysToExpiry(props?: cdk.aws_cloudwatch.MetricOptions | undefined): cdk.aws_cloudwatch.Metric {
-    return new cloudwatch.Metric({
-      period: cdk.Duration.days(1),
-      ...props,
-      dimensionsMap: { CertificateArn: this.certificateArn },
-      metricName: 'DaysToExpiry',
-      namespace: 'AWS/CertificateManager',
-      region: this.certificateRegion,
-      statistic: cloudwatch.Stats.MINIMUM,
+    return daysToExpiryMetric(this.certificateArn, this.certificateRegion, props)
+  }
+
+  /**
+   * Returns the metric for the number of validation records found missing or changed by the ``reconcileSchedule``.
+   *
+   * The metric is published by the requestor function in the stack region.
+   *
+   * @param props properties of the metric
+   */
+  public metricValidationRecordDrift(props?: cloudwatch.MetricOptions): cloudwatch.Metric {
+    return this.requestorMetric(DRIFT_METRIC_NAME, props)
+  }
+
+  /**
+   * Returns the metric that is 1 when the ACM managed renewal of the certificate waits for the domain validation.
+   *
+   * The metric is published on the ``reconcileSchedule`` by the requestor function in the stack region. A renewal
+   * that stays pending means that ACM cannot find the validation records.
+   *
+   * @param props properties of the metric
+   */
+  public metricRenewalPendingValidation(props?: cloudwatch.MetricOptions): cloudwatch.Metric {
+    return this.requestorMetric(RENEWAL_PENDING_VALIDATION_METRIC_NAME, props)
+  }
+
+  /**
+   * Returns the metric that is 1 when the ACM managed renewal of the certificate has failed.
+   *
+   * The metric is published on the ``reconcileSchedule`` by the requestor function in the stack region.
+   *
+   * @param props properties of the metric
+   */
+  public metricRenewalFailed(props?: cloudwatch.MetricOptions): cloudwatch.Metric {
+    return this.requestorMetric(RENEWAL_FAILED_METRIC_NAME, props)
+  }
+
+  /**
+   * Exports the certificate to an SSM ``StringList`` parameter, possibly in another region or account.
+   *
+   * The parameter holds the certificate ARN, ``certificateRegion`` and ``notAfter``, in this order. Import the
+   * certificate with ``DnsValidatedCertificate.fromSsmParameter()``.
+   *
+   * @param id construct's identifier for the parameter
+   * @param options options for the parameter
+   */
+  public addSsmParameterExport(id: string, options: SsmParameterExportOptions): void {
+    const values = [this.certificateArn, this.certificateRegion, this.notAfter]
+    const description = `Certificate ARN, region and expiry of ${this.node.path}`
+    if ((options.region === undefined || options.region === this.stack.region) && options.role === undefined) {
+      new ssm.StringListParameter(this, id, {
+        parameterName: options.parameterName,
+        stringListValue: values,
+        description,
+      })
+      return
+    }
+    new CrossRegionParameterWriter(this, id, {
+      region: options.region ?? this.stack.region,
+      parameterName: options.parameterName,
+      values,
+      description,
+      role: options.role,
     })
   }
 
+  /**
+   * Adds an alarm for the certificate expiring in less than ``threshold`` days, which means its renewal has failed.
+   *
+   * The alarm is created in ``certificateRegion``, where ACM publishes the ``DaysToExpiry`` metric.
+   *
+   * @param id construct's identifier for the alarm
+   * @param options options for the alarm
+   */
+  public addExpiryAlarm(id: string, options: ExpiryAlarmOptions = {}): cloudwatch.IAlarm {
+    const threshold = options.threshold ?? 45
+    const alarmDescription =
+      options.alarmDescription ?? `Certificate ${this.node.path} expires in less than ${threshold} days`
+
+    if (this.certificateRegion !== this.stack.region) {
+      return new CrossRegionAlarm(this, id, {
+        region: this.certificateRegion,
+        metric: this.metricDaysToExpiry(),
+        threshold,
+        comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+        actions: options.actions ?? [],
+        alarmName: options.alarmName,
+        alarmDescription,
+      }).alarm
+    }
+
+    const alarm = new cloudwatch.Alarm(this, id, {
+      metric: this.metricDaysToExpiry(),
+      threshold,
+      evaluationPeriods: 1,
+      comparisonOperator: cloudwatch.ComparisonOperator.LESS_THAN_THRESHOLD,
+      alarmName: options.alarmName,
+      alarmDescription,
+    })
+    alarm.addAlarmAction(...(options.actions ?? []))
+    return alarm
+  }
+
+  /**
+   * Publishes the ACM expiry and renewal events of the certificate to the SNS topic.
+   *
+   * ACM emits the events ``ACM Certificate Approaching Expiration``, ``ACM Certificate Expired`` and
+   * ``ACM Certificate Renewal Action Required`` in ``certificateRegion``. When it differs from the stack region, the
+   * events are forwarded to the default event bus of the stack region, where the returned rule routes them to the
+   * topic.
+   *
+   * @see https://docs.aws.amazon.com/acm/latest/userguide/supported-events.html
+   *
+   * @param id construct's identifier for the rule
+   * @param topic the topic to publish the events to
+   */
+  public addExpiryNotifications(id: string, topic: sns.ITopic): events.Rule {
+    const eventPattern: events.EventPattern = {
+      source: ['aws.acm'],
+      detailType: [
+        'ACM Certificate Approaching Expiration',
+        'ACM Certificate Expired',
+        'ACM Certificate Renewal Action Required',
+      ],
+      resources: [this.certificateArn],
+    }
+
+    const rule = new events.Rule(this, id, {
+      description: `Expiry and renewal events of certificate ${this.node.path}`,
+      eventPattern,
+      targets: [new events_targets.SnsTopic(topic)],
+    })
+    if (this.certificateRegion !== this.stack.region) {
+      new CrossRegionEventForwarder(rule, 'Forwarder', {
+        region: this.certificateRegion,
+        eventPattern,
+      })
+    }
+    return rule
+  }
+
+  /**
+   * Returns the ARN of the certificate in the given region.
+   *
+   * @param region ``certificateRegion`` or one of the ``additionalCertificateRegions``
+   */
+  public certificateArnForRegion(region: string): string {
+    if (region === this.certificateRegion) {
+      return this.certificateArn
+    }
+    if (!this.additionalCertificateRegions.includes(region)) {
+      throw new Error(`Certificate ${this.node.path} is not deployed to region ${region}`)
+    }
+    return this.resource.getAttString(regionalArnAttribute(region))
+  }
+
+  /**
+   * Returns the certificate in the given region.
+   *
+   * @param region ``certificateRegion`` or one of the ``additionalCertificateRegions``
+   */
+  public certificateForRegion(region: string): IDnsValidatedCertificate {
+    if (region === this.certificateRegion) {
+      return this
+    }
+    const id = `Certificate-${region}`
+    const existing = this.node.tryFindChild(id) as IDnsValidatedCertificate | undefined
+    return existing ?? new RegionalCertificate(this, id, this.certificateArnForRegion(region), region)
+  }
+
   applyRemovalPolicy(policy: cdk.RemovalPolicy): void {
     this.removalPolicy = policy
   }
@@ -376,20 +1314,218 @@ export class DnsValidatedCertificate extends cdk.Resource implements certificate
     return cleanDomainName(domainName)
   }
 
-  private normalizeHostedZoneId(hostedZoneId: string): string {
-    if (cdk.Token.isUnresolved(hostedZoneId)) {
-      return hostedZoneId
+  /**
+   * Warns when the validation record attributes are not expected to fit in the custom resource response. The requestor
+   * leaves them out of an oversized response, so reading ``validationRecords`` would fail the deployment.
+   */
+  private warnResponseSize(domainNames: string[], regionCount: number): void {
+    const domainNameBytes = (domainName: string) => (cdk.Token.isUnresolved(domainName) ? 64 : domainName.length)
+    const responseBytes =
+      RESPONSE_ENVELOPE_BYTES +
+      ESTIMATED_DETAILS_BYTES +
+      regionCount * ESTIMATED_REGION_BYTES +
+      domainNames.reduce((total, domainName) => total + ESTIMATED_RECORD_BYTES + domainNameBytes(domainName), 0)
+    if (responseBytes > MAX_RESPONSE_BYTES) {
+      cdk.Annotations.of(this).addWarning(
+        `Validation records of ${domainNames.length} domain name(s) in ${regionCount} region(s) do not fit in the ` +
+          `custom resource response of ${MAX_RESPONSE_BYTES} bytes, so validationRecords cannot be read`
+      )
+    }
+  }
+
+  /**
+   * Warns when a certificate in ``us-east-1``, the region of the certificates used by CloudFront, has a key that
+   * CloudFront does not support.
+   */
+  private warnKeyAlgorithm(keyAlgorithm: KeyAlgorithm | undefined): void {
+    const regions = [this.certificateRegion, ...this.additionalCertificateRegions]
+    if (keyAlgorithm?.name === KeyAlgorithm.EC_SECP384R1.name && regions.includes('us-east-1')) {
+      cdk.Annotations.of(this).addWarning(
+        `Key algorithm ${keyAlgorithm.name} is not supported by CloudFront, use RSA_2048 or EC_prime256v1 for ` +
+          `certificates used by CloudFront distributions`
+      )
+    }
+  }
+
+  private validateTotalTimeout(totalTimeout: cdk.Duration): void {
+    const seconds = totalTimeout.toSeconds()
+    if (seconds > MAX_TOTAL_TIMEOUT.toSeconds()) {
+      throw new Error(`Total timeout ${totalTimeout.toHumanString()} exceeds ${MAX_TOTAL_TIMEOUT.toHumanString()}`)
+    }
+    if (seconds <= 0 || seconds % QUERY_INTERVAL.toSeconds() !== 0) {
+      throw new Error(
+        `Total timeout ${totalTimeout.toHumanString()} is not a multiple of ${QUERY_INTERVAL.toHumanString()}`
+      )
+    }
+  }
+
+  private validateValidationMethod(
+    props: DnsValidatedCertificateProps,
+    validationMethod: certificatemanager.ValidationMethod
+  ): string[] {
+    const errors: string[] = []
+    if (props.certificateAuthority !== undefined) {
+      if (props.validationHostedZones !== undefined) {
+        errors.push('Validation hosted zones cannot be used with private certificates')
+      }
+      if (props.validationMethod !== undefined || props.validationDomains !== undefined) {
+        errors.push('Validation method and domains cannot be used with private certificates')
+      }
+      if (props.validationRecordOutputs) {
+        errors.push('Validation record outputs cannot be used with private certificates')
+      }
+      if (props.additionalCertificateRegions !== undefined && props.additionalCertificateRegions.length > 0) {
+        errors.push('Additional certificate regions cannot be used with private certificates')
+      }
+      if (props.reconcileSchedule !== undefined) {
+        errors.push('Reconcile schedule cannot be used with private certificates')
+      }
+    } else if (validationMethod === certificatemanager.ValidationMethod.DNS) {
+      if (props.validationHostedZones === undefined || props.validationHostedZones.length === 0) {
+        errors.push('Validation hosted zones are required for DNS validation')
+      }
+      if (props.validationDomains !== undefined) {
+        errors.push('Validation domains can be used only with email validation')
+      }
+      for (const zone of props.validationHostedZones ?? []) {
+        errors.push(...this.validateValidationHostedZone(zone))
+      }
+    } else {
+      if (props.totalTimeout === undefined) {
+        errors.push('Email validation requires total timeout to wait for the approval asynchronously')
+      }
+      if (props.validationRecordOutputs) {
+        errors.push('Validation record outputs can be used only with DNS validation')
+      }
+      if (props.reconcileSchedule !== undefined) {
+        errors.push('Reconcile schedule can be used only with DNS validation')
+      }
+    }
+    return errors
+  }
+
+  private validateValidationHostedZone(zone: ValidationHostedZone): string[] {
+    const errors: string[] = []
+    const name = zone.zoneName ?? zone.hostedZone?.zoneName ?? 'unknown'
+    if ((zone.hostedZone === undefined) === (zone.validationRecordFunction === undefined)) {
+      errors.push(`Validation hosted zone ${name} must have either hosted zone or validation record function`)
     }
-    return cleanHostedZoneId(hostedZoneId)
+    if (zone.validationRecordFunction !== undefined) {
+      if (zone.zoneName === undefined) {
+        errors.push(`Validation hosted zone ${name} requires zone name with validation record function`)
+      }
+      if (zone.validationRole !== undefined) {
+        errors.push(`Validation hosted zone ${name} cannot use validation role with validation record function`)
+      }
+    }
+    const sessionOptions =
+      zone.validationRoleChain !== undefined ||
+      zone.validationSessionName !== undefined ||
+      zone.validationSessionTags !== undefined ||
+      zone.validationSessionPolicy !== undefined
+    if (zone.validationRole === undefined && sessionOptions) {
+      errors.push(`Validation hosted zone ${name} requires validation role with role chain or session options`)
+    }
+    const sessionName = zone.validationSessionName
+    if (sessionName !== undefined && !cdk.Token.isUnresolved(sessionName) && !SESSION_NAME_PATTERN.test(sessionName)) {
+      errors.push(`Validation hosted zone ${name} has invalid session name ${sessionName}`)
+    }
+    return errors
   }
 
-  private wildcardDomainName(id: string, domainName: string): string {
-    const parts = cdk.Fn.split('.', domainName)
-    const first = cdk.Fn.select(0, parts)
-    const isWildcard = new cdk.CfnCondition(this, `Is${id}`, {
-      expression: cdk.Fn.conditionEquals(first, '*'),
+  private validateCertificateRegions(): string[] {
+    const errors: string[] = []
+    const regions = [this.certificateRegion, ...this.additionalCertificateRegions]
+    if (this.additionalCertificateRegions.some((region) => cdk.Token.isUnresolved(region))) {
+      errors.push('Additional certificate regions must not be tokens')
+    } else if (new Set(regions).size !== regions.length) {
+      errors.push('Additional certificate regions must be unique and different from the certificate region')
+    }
+    return errors
+  }
+
+  private requestorMetric(metricName: string, props?: cloudwatch.MetricOptions): cloudwatch.Metric {
+    return new cloudwatch.Metric({
+      statistic: cloudwatch.Stats.MAXIMUM,
+      ...props,
+      dimensionsMap: { CertificateArn: this.certificateArn },
+      metricName,
+      namespace: METRIC_NAMESPACE,
     })
-    return cdk.Fn.conditionIf(isWildcard.logicalId, domainName, `*.${domainName}`).toString()
+  }
+
+  private validateKeyAlgorithm(keyAlgorithm: KeyAlgorithm | undefined): string[] {
+    const errors: string[] = []
+    if (keyAlgorithm !== undefined && !REQUESTABLE_KEY_ALGORITHMS.includes(keyAlgorithm.name)) {
+      errors.push(
+        `Key algorithm ${keyAlgorithm.name} cannot be requested from ACM, use one of ${REQUESTABLE_KEY_ALGORITHMS.join(
+          ', '
+        )}`
+      )
+    }
+    return errors
+  }
+
+  /**
+   * Checks that the phases of a single requestor invocation fit in the requestor timeout. The record sync timeout
+   * applies to each Route 53 hosted zone and the other phases to each certificate region. Exceeding the timeout with
+   * only the default timeouts is a warning, as the defaults are rarely reached.
+   */
+  private validateTimeouts(
+    props: DnsValidatedCertificateProps,
+    hostedZoneCount: number,
+    regionCount: number
+  ): string[] {
+    const errors: string[] = []
+    const seconds = (duration: cdk.Duration | undefined, defaultSeconds: number) =>
+      duration?.toSeconds() ?? defaultSeconds
+    const validationRecords = regionCount * seconds(props.validationRecordsTimeout, DEFAULT_TIMEOUTS.validationRecords)
+    const recordSync = hostedZoneCount * seconds(props.recordSyncTimeout, DEFAULT_TIMEOUTS.recordSync)
+    const validation = regionCount * seconds(props.validationTimeout, DEFAULT_TIMEOUTS.validation)
+    const usageDrain = regionCount * seconds(props.usageDrainTimeout, DEFAULT_TIMEOUTS.usageDrain)
+    const requestorTimeout = REQUESTOR_TIMEOUT.toSeconds()
+    const counts = `for ${hostedZoneCount} hosted zone(s) and ${regionCount} region(s)`
+    const report = (phases: string, total: number, ...timeouts: (cdk.Duration | undefined)[]) => {
+      if (total <= requestorTimeout) {
+        return
+      }
+      const message = `${phases} ${counts} exceed the requestor timeout of ${REQUESTOR_TIMEOUT.toHumanString()}`
+      if (timeouts.some((timeout) => timeout !== undefined)) {
+        errors.push(message)
+      } else {
+        cdk.Annotations.of(this).addWarning(message)
+      }
+    }
+
+    if (props.totalTimeout !== undefined) {
+      if (props.validationTimeout !== undefined) {
+        errors.push('Validation timeout cannot be used with total timeout')
+      }
+      if (props.usageDrainTimeout !== undefined) {
+        errors.push('Usage drain timeout cannot be used with total timeout')
+      }
+      report(
+        'Validation records timeout and record sync timeout',
+        validationRecords + recordSync,
+        props.validationRecordsTimeout,
+        props.recordSyncTimeout
+      )
+    } else {
+      report(
+        'Validation records timeout, record sync timeout and validation timeout',
+        validationRecords + recordSync + validation,
+        props.validationRecordsTimeout,
+        props.recordSyncTimeout,
+        props.validationTimeout
+      )
+      report(
+        'Usage drain timeout and record sync timeout',
+        usageDrain + regionCount * recordSync,
+        props.usageDrainTimeout,
+        props.recordSyncTimeout
+      )
+    }
+    return errors
   }
 
   private validateDomainsToHostedZones(domainNames: string[], zoneNames: string[]): string[] {
@@ -397,10 +1533,56 @@ export class DnsValidatedCertificate extends cdk.Resource implements certificate
     for (const domainName of domainNames) {
       const resolvableDomainName = !cdk.Token.isUnresolved(domainName)
       const resolvableZoneNames = !zoneNames.some((zoneName) => cdk.Token.isUnresolved(zoneName))
-      if (resolvableDomainName && resolvableZoneNames && !zoneNames.some((zoneName) => domainName.endsWith(zoneName))) {
+      if (
+        resolvableDomainName &&
+        resolvableZoneNames &&
+        !zoneNames.some((zoneName) => isNameInZone(domainName, zoneName))
+      ) {
         errors.push(`Domain ${domainName} is not provided with authoritative hosted zone`)
       }
     }
     return errors
   }
 }
+
+const daysToExpiryMetric = (
+  certificateArn: string,
+  region: string,
+  props?: cloudwatch.MetricOptions
+): cloudwatch.Metric => {
+  return new cloudwatch.Metric({
+    period: cdk.Duration.days(1),
+    ...props,
+    dimensionsMap: { CertificateArn: certificateArn },
+    metricName: 'DaysToExpiry',
+    namespace: 'AWS/CertificateManager',
+    region,
+    statistic: cloudwatch.Stats.MINIMUM,
+  })
+}
+
+/**
+ * A certificate deployed to one of the ``additionalCertificateRegions`` of a ``DnsValidatedCertificate``, or an
+ * imported certificate.
+ */
+class RegionalCertificate extends cdk.Resource implements IDnsValidatedCertificate {
+  constructor(
+    scope: Construct,
+    id: string,
+    public readonly certificateArn: string,
+    public readonly certificateRegion: string
+  ) {
+    super(scope, id)
+  }
+
+  metricDaysToExpiry(props?: cloudwatch.MetricOptions): cloudwatch.Metric {
+    return daysToExpiryMetric(this.certificateArn, this.certificateRegion, props)
+  }
+
+  /** A reference to a Certificate resource. */
+  public get certificateRef(): any {
+    return {
+      certificateId: this.certificateArn,
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import * as cdk from 'aws-cdk-lib'
+import * as iam from 'aws-cdk-lib/aws-iam'
+import * as route53 from 'aws-cdk-lib/aws-route53'
+import { Construct } from 'constructs'
+import { isNameInZone, matchNamesToZones } from './utils'
+import { changeValidationRecordsStatement, hostedZoneArn } from './validation-policy'
+
+/**
+ * Properties to create a DNS validation role.
+ */
+export interface DnsValidationRoleProps {
+  /**
+   * Hosted zones where the validation records are written.
+   */
+  readonly hostedZones: route53.IHostedZone[]
+
+  /**
+   * Domain names whose validation records the role may change.
+   *
+   * A wildcard domain name allows the same records as the domain name without the wildcard. Other domain names allow
+   * the validation records of the name and all its subdomains, like the certificate's domain names do. Each domain
+   * name must belong to one of the ``hostedZones``.
+   *
+   * @default - The names of the hosted zones, allowing validation records for any name in the zones.
+   */
+  readonly domainNames?: string[]
+
+  /**
+   * Accounts allowed to assume the role, usually the accounts where ``DnsValidatedCertificate`` is deployed.
+   */
+  readonly trustedAccounts: string[]
+
+  /**
+   * External id required when assuming the role, given as ``validationExternalId`` of the ``ValidationHostedZone``.
+   *
+   * @default - No external id is required.
+   */
+  readonly externalId?: string
+
+  /**
+   * Allow the trusted accounts to pass session tags, required with ``validationSessionTags`` of the
+   * ``ValidationHostedZone``.
+   *
+   * @default false
+   */
+  readonly allowSessionTags?: boolean
+
+  /**
+   * Name of the role.
+   *
+   * @default - A unique name generated by CloudFormation.
+   */
+  readonly roleName?: string
+}
+
+/**
+ * A least-privilege role for writing certificate validation records, deployed in the account of the hosted zones.
+ *
+ * The role is allowed to upsert and delete only the ``CNAME`` records of the allowed domain names, with the same
+ * conditions ``DnsValidatedCertificate`` uses for its own role, and to read the changes and the records of the zones.
+ * The role ARN is given as ``validationRole`` of the ``ValidationHostedZone`` in the certificate's stack and it is also
+ * available as the ``RoleArn`` stack output.
+ *
+ * @example
+ * // in the stack of the hosted zone account
+ * const validationRole = new DnsValidationRole(this, 'DnsValidationRole', {
+ *   hostedZones: [hostedZone],
+ *   domainNames: ['example.com', '*.example.com'],
+ *   trustedAccounts: ['123456789012'],
+ *   externalId: 'domain-assume',
+ *   roleName: 'DnsValidationRole'
+ * })
+ */
+export class DnsValidationRole extends Construct {
+  /**
+   * The validation role.
+   */
+  public readonly role: iam.IRole
+
+  /**
+   * The ARN of the validation role.
+   */
+  public readonly roleArn: string
+
+  /**
+   * Creates a new DNS validation role.
+   *
+   * @param scope parent construct
+   * @param id construct's identifier
+   * @param props properties for the role
+   */
+  constructor(scope: Construct, id: string, props: DnsValidationRoleProps) {
+    super(scope, id)
+
+    if (props.trustedAccounts.length === 0) {
+      throw new Error(`Validation role ${this.node.path} requires at least one trusted account`)
+    }
+
+    const accounts = props.trustedAccounts.map((account) => {
+      const principal = new iam.AccountPrincipal(account)
+      return props.allowSessionTags ? principal.withSessionTags() : principal
+    })
+    const role = new iam.Role(this, 'Resource', {
+      roleName: props.roleName,
+      description: 'Writes certificate validation records to the hosted zones',
+      assumedBy: new iam.CompositePrincipal(...accounts),
+      externalIds: props.externalId !== undefined ? [props.externalId] : undefined,
+    })
+    this.role = role
+    this.roleArn = role.roleArn
+
+    role.addToPolicy(
+      new iam.PolicyStatement({
+        actions: ['route53:GetChange'],
+        resources: ['*'],
+      })
+    )
+    role.addToPolicy(
+      new iam.PolicyStatement({
+        actions: ['route53:ListResourceRecordSets'],
+        resources: props.hostedZones.map(hostedZoneArn),
+      })
+    )
+
+    const zoneNames = props.hostedZones.map((hostedZone) => hostedZone.zoneName)
+    const domainNames = props.domainNames ?? zoneNames
+    const domainsToZones = matchNamesToZones(zoneNames, domainNames, (domainName) => domainName)
+    props.hostedZones.forEach((hostedZone) => {
+      const zoneDomainNames = domainsToZones[hostedZone.zoneName]
+      if (zoneDomainNames && zoneDomainNames.length > 0) {
+        role.addToPolicy(changeValidationRecordsStatement(this, hostedZone, zoneDomainNames))
+      }
+    })
+
+    new cdk.CfnOutput(this, 'RoleArn', {
+      description: 'Validation role of the hosted zones',
+      value: role.roleArn,
+    })
+
+    this.node.addValidation({
+      validate: () => this.validateProps(props, domainNames, zoneNames),
+    })
+  }
+
+  private validateProps(props: DnsValidationRoleProps, domainNames: string[], zoneNames: string[]): string[] {
+    const errors: string[] = []
+    if (props.hostedZones.length === 0) {
+      errors.push('Validation role requires at least one hosted zone')
+    }
+    const resolvableZoneNames = !zoneNames.some((zoneName) => cdk.Token.isUnresolved(zoneName))
+    for (const domainName of domainNames) {
+      if (
+        !cdk.Token.isUnresolved(domainName) &&
+        resolvableZoneNames &&
+        !zoneNames.some((zoneName) => isNameInZone(domainName, zoneName))
+      ) {
+        errors.push(`Domain ${domainName} is not in any of the hosted zones of the validation role`)
+      }
+    }
+    return errors
+  }
+}
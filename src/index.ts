@@ -1 +1,2 @@
 export * from './dns-validated-certificate'
+export * from './dns-validation-role'
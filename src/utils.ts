@@ -1,3 +1,46 @@
+/** Default timeouts in seconds for the requestor phases */
+export const DEFAULT_TIMEOUTS = {
+  validationRecords: 180,
+  recordSync: 180,
+  validation: 300,
+  usageDrain: 600,
+  maxPollingInterval: 30,
+}
+
+/** Namespace of the metrics published by the requestor */
+export const METRIC_NAMESPACE = 'DnsValidatedCertificate'
+
+/** Name of the metric for the number of validation records found missing or changed by the scheduled check */
+export const DRIFT_METRIC_NAME = 'ValidationRecordDrift'
+
+/** Name of the metric that is 1 when the managed renewal waits for the domain validation */
+export const RENEWAL_PENDING_VALIDATION_METRIC_NAME = 'RenewalPendingValidation'
+
+/** Name of the metric that is 1 when the managed renewal has failed */
+export const RENEWAL_FAILED_METRIC_NAME = 'RenewalFailed'
+
+/** Key algorithms ACM supports for requested certificates, the first one is the ACM default */
+export const REQUESTABLE_KEY_ALGORITHMS = ['RSA_2048', 'EC_prime256v1', 'EC_secp384r1']
+
+/** Size limit of the custom resource response accepted by CloudFormation */
+export const MAX_RESPONSE_BYTES = 4096
+
+/** Bytes reserved in the custom resource response for the status, reason and ids besides the data and physical id */
+export const RESPONSE_ENVELOPE_BYTES = 1024
+
+/** Role session names STS accepts when assuming a role */
+export const SESSION_NAME_PATTERN = /^[\w+=,.@-]{2,64}$/
+
+/** Custom resource attribute name of a validation record field for the domain at the given index */
+export const validationRecordAttribute = (index: number, field: 'Name' | 'Type' | 'Value'): string => {
+  return `ValidationRecords.${index}.${field}`
+}
+
+/** Custom resource attribute name of the certificate ARN in the given region */
+export const regionalArnAttribute = (region: string): string => {
+  return `Arns.${region}`
+}
+
 export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
 
 export const booleanToString = (value: boolean): string => {
@@ -17,6 +60,15 @@ export const containsSame = <T>(array1: T[], array2: T[]): boolean => {
   return array1.every((v1) => array2.includes(v1))
 }
 
+export const diffTags = (
+  oldTags: Record<string, string>,
+  newTags: Record<string, string>
+): { changed: Record<string, string>; removed: string[] } => {
+  const changed = Object.fromEntries(Object.entries(newTags).filter(([key, value]) => oldTags[key] !== value))
+  const removed = Object.keys(oldTags).filter((key) => !(key in newTags))
+  return { changed, removed }
+}
+
 export const orderBySignificance = (domains: string[]): string[] => {
   const copy = [...domains]
   copy.sort((a, b) => {
@@ -40,6 +92,10 @@ export const cleanDomainName = (domainName: string): string => {
   return domainName
 }
 
+export const arnRegion = (arn: string): string => {
+  return arn.split(':')[3]
+}
+
 export const cleanHostedZoneId = (hostedZoneId: string): string => {
   return hostedZoneId.replace(/^\/hostedzone\//, '')
 }
@@ -48,6 +104,22 @@ export const cleanChangeId = (changeId: string): string => {
   return changeId.replace('/change/', '')
 }
 
+export const isNameInZone = (name: string, zoneName: string): boolean => {
+  const normalizedName = cleanDomainName(name)
+  const normalizedZoneName = cleanDomainName(zoneName)
+  return normalizedName === normalizedZoneName || normalizedName.endsWith('.' + normalizedZoneName)
+}
+
+/**
+ * Checks whether the domain names share a validation domain. A wildcard domain name is validated with the same record
+ * as the domain name without the wildcard.
+ */
+export const sharesValidationDomain = (domainNames: string[], otherDomainNames: string[]): boolean => {
+  const validationDomain = (domainName: string) => cleanDomainName(domainName).replace(/^\*\./, '')
+  const validationDomains = domainNames.map(validationDomain)
+  return otherDomainNames.some((domainName) => validationDomains.includes(validationDomain(domainName)))
+}
+
 export const matchNamesToZones = <T>(
   zoneNames: string[],
   records: T[],
@@ -77,7 +149,17 @@ export const matchNamesToZones = <T>(
   return matcher(orderedZoneNames, records, {})
 }
 
-export const tryFor = async <T>(maxSeconds: number, timeoutError: string, fn: () => Promise<T | null>): Promise<T> => {
+export const backoffDelay = (attempt: number, maxIntervalSeconds: number): number => {
+  const base = Math.pow(2, attempt)
+  return Math.min(Math.random() * base * 50 + base * 150, maxIntervalSeconds * 1000)
+}
+
+export const tryFor = async <T>(
+  maxSeconds: number,
+  timeoutError: string,
+  fn: () => Promise<T | null>,
+  maxIntervalSeconds: number = DEFAULT_TIMEOUTS.maxPollingInterval
+): Promise<T> => {
   const startTime = Date.now()
   // eslint-disable-next-line no-constant-condition
   for (let i = 0; true; i++) {
@@ -88,7 +170,6 @@ export const tryFor = async <T>(maxSeconds: number, timeoutError: string, fn: ()
     if (result !== null) {
       return result
     }
-    const base = Math.pow(2, i)
-    await sleep(Math.random() * base * 50 + base * 150)
+    await sleep(backoffDelay(i, maxIntervalSeconds))
   }
 }
@@ -0,0 +1,58 @@
+import * as cdk from 'aws-cdk-lib'
+import * as iam from 'aws-cdk-lib/aws-iam'
+import * as route53 from 'aws-cdk-lib/aws-route53'
+import { Construct } from 'constructs'
+import { cleanHostedZoneId } from './utils'
+
+/** Returns the hosted zone id without the ``/hostedzone/`` prefix, leaving tokens as they are */
+export const normalizeHostedZoneId = (hostedZoneId: string): string => {
+  if (cdk.Token.isUnresolved(hostedZoneId)) {
+    return hostedZoneId
+  }
+  return cleanHostedZoneId(hostedZoneId)
+}
+
+/** Returns the ARN of the hosted zone */
+export const hostedZoneArn = (hostedZone: route53.IHostedZone): string => {
+  return `arn:aws:route53:::hostedzone/${normalizeHostedZoneId(hostedZone.hostedZoneId)}`
+}
+
+/**
+ * Returns the statement allowing only the upserts and deletes of the CNAME validation records of the domain names
+ * in the hosted zone. The conditions for the wildcard names are created in the given scope, so the statement can be
+ * built only once per hosted zone in a scope.
+ */
+export const changeValidationRecordsStatement = (
+  scope: Construct,
+  hostedZone: route53.IHostedZone,
+  domainNames: string[]
+): iam.PolicyStatement => {
+  return new iam.PolicyStatement({
+    actions: ['route53:ChangeResourceRecordSets'],
+    resources: [hostedZoneArn(hostedZone)],
+    conditions: {
+      'ForAllValues:StringEquals': {
+        'route53:ChangeResourceRecordSetsRecordTypes': ['CNAME'],
+        'route53:ChangeResourceRecordSetsActions': ['UPSERT', 'DELETE'],
+      },
+      'ForAllValues:StringLike': {
+        'route53:ChangeResourceRecordSetsNormalizedRecordNames': domainNames.map((name, index) => {
+          return wildcardDomainName(scope, `DomainWildcard${hostedZone.node.id}${index}`, name)
+        }),
+      },
+    },
+  })
+}
+
+/**
+ * Returns the domain name as a pattern matching its validation record. A wildcard domain name matches as is, other
+ * names match their subdomains. The domain name may be a token, so the check is done with a template condition.
+ */
+const wildcardDomainName = (scope: Construct, id: string, domainName: string): string => {
+  const parts = cdk.Fn.split('.', domainName)
+  const first = cdk.Fn.select(0, parts)
+  const isWildcard = new cdk.CfnCondition(scope, `Is${id}`, {
+    expression: cdk.Fn.conditionEquals(first, '*'),
+  })
+  return cdk.Fn.conditionIf(isWildcard.logicalId, domainName, `*.${domainName}`).toString()
+}
@@ -0,0 +1,471 @@
+import {
+  ACMClient,
+  AddTagsToCertificateCommand,
+  DeleteCertificateCommand,
+  DescribeCertificateCommand,
+  ListTagsForCertificateCommand,
+  RemoveTagsFromCertificateCommand,
+  ResourceNotFoundException,
+} from '@aws-sdk/client-acm'
+import type { CloudFormationCustomResourceDeleteEvent, CloudFormationCustomResourceUpdateEvent } from 'aws-lambda'
+import {
+  certificateData,
+  checkValidation,
+  handler,
+  markSuperseded,
+  parseProperties,
+  renewalValidationRecords,
+  shouldRequestNew,
+  transparencyLoggingPreference,
+  withRecordSessionPolicies,
+} from '../src/certificate-requestor.lambda'
+
+const validProperties = {
+  ServiceToken: 'arn:aws:lambda:eu-west-1:123456789012:function:provider',
+  DomainName: 'test.example.com',
+  AlternativeDomainNames: ['*.test.example.com', 'secondary.com'],
+  ValidationHostedZones: {
+    'example.com': {
+      DomainName: 'example.com',
+      HostedZoneId: 'Z532DGDEDFS123456789',
+    },
+    'secondary.com': {
+      DomainName: 'secondary.com',
+      HostedZoneId: 'Z532DGDEDFS987654321',
+      ValidationRoleArn: 'arn:aws:iam::123456789012:role/ChangeDnsRecordsRole',
+      ValidationExternalId: 'domain-assume',
+    },
+  },
+  CertificateRegion: 'us-east-1',
+  CleanupValidationRecords: 'true',
+  TransparencyLoggingEnabled: 'true',
+  RemovalPolicy: 'destroy',
+  ValidationTimeout: '300',
+}
+
+test('valid properties are parsed', () => {
+  const properties = parseProperties(validProperties)
+
+  expect(properties.DomainName).toBe('test.example.com')
+  expect(Object.keys(properties.ValidationHostedZones)).toEqual(['example.com', 'secondary.com'])
+})
+
+test('missing properties are reported precisely', () => {
+  expect(() => parseProperties({ CertificateRegion: 'us-east-1' })).toThrow(
+    'Invalid certificate properties: DomainName must be a non-empty string'
+  )
+})
+
+test('invalid values are reported together', () => {
+  const properties = {
+    ...validProperties,
+    ValidationHostedZones: {
+      'example.com': {
+        DomainName: 'example.com',
+        HostedZoneId: 'Z532DGDEDFS123456789',
+        ValidationRoleArn: 'ChangeDnsRecordsRole',
+      },
+    },
+    RemovalPolicy: 'keep',
+    ValidationTimeout: 'five minutes',
+  }
+
+  expect(() => parseProperties(properties)).toThrow(
+    /RemovalPolicy must be one of .*; ValidationTimeout must be a positive number of seconds.*; ValidationHostedZones.example.com.ValidationRoleArn is not a valid IAM role ARN/
+  )
+})
+
+test('validation role session options require a validation role', () => {
+  const sessionOptions = {
+    ValidationRoleChain: ['arn:aws:iam::111111111111:role/HubRole'],
+    ValidationSessionName: 'certificates',
+    ValidationSessionTags: { project: 'web' },
+  }
+  const properties = {
+    ...validProperties,
+    ValidationHostedZones: {
+      ...validProperties.ValidationHostedZones,
+      'secondary.com': { ...validProperties.ValidationHostedZones['secondary.com'], ...sessionOptions },
+    },
+  }
+
+  expect(parseProperties(properties).ValidationHostedZones['secondary.com'].ValidationRoleChain).toEqual([
+    'arn:aws:iam::111111111111:role/HubRole',
+  ])
+  expect(() =>
+    parseProperties({
+      ...validProperties,
+      ValidationHostedZones: {
+        ...validProperties.ValidationHostedZones,
+        'example.com': { ...validProperties.ValidationHostedZones['example.com'], ValidationSessionName: 'a' },
+      },
+    })
+  ).toThrow(
+    /ValidationHostedZones.example.com.ValidationSessionName is not a valid role session name; ValidationHostedZones.example.com requires ValidationRoleArn/
+  )
+})
+
+test('domains must belong to a validation hosted zone with DNS validation', () => {
+  const properties = {
+    ...validProperties,
+    AlternativeDomainNames: ['notexample.com', 'secondary.com'],
+  }
+
+  expect(() => parseProperties(properties)).toThrow(
+    'Invalid certificate properties: Domain notexample.com does not belong to any of the validation hosted zones'
+  )
+  expect(() => parseProperties({ ...properties, ValidationMethod: 'EMAIL', ValidationHostedZones: {} })).not.toThrow()
+})
+
+test('private certificates require a valid certificate authority and no hosted zones', () => {
+  const properties = {
+    ...validProperties,
+    AlternativeDomainNames: ['internal.test'],
+    ValidationHostedZones: {},
+    CertificateAuthorityArn:
+      'arn:aws:acm-pca:us-east-1:123456789012:certificate-authority/11111111-2222-3333-4444-555555555555',
+  }
+
+  expect(parseProperties(properties).CertificateAuthorityArn).toBe(properties.CertificateAuthorityArn)
+  expect(() => parseProperties({ ...properties, CertificateAuthorityArn: 'my-ca' })).toThrow(
+    'Invalid certificate properties: CertificateAuthorityArn is not a valid certificate authority ARN: my-ca'
+  )
+})
+
+test('validation check fails fast with the failed domains and reason', () => {
+  const certificate = {
+    CertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/abc',
+    Status: 'PENDING_VALIDATION' as const,
+    DomainValidationOptions: [
+      { DomainName: 'test.example.com', ValidationStatus: 'SUCCESS' as const },
+      { DomainName: 'secondary.com', ValidationStatus: 'PENDING_VALIDATION' as const },
+    ],
+  }
+
+  expect(checkValidation(certificate)).toBe(false)
+  expect(checkValidation({ ...certificate, Status: 'ISSUED' })).toBe(true)
+  expect(() =>
+    checkValidation({
+      ...certificate,
+      DomainValidationOptions: [
+        { DomainName: 'test.example.com', ValidationStatus: 'SUCCESS' },
+        { DomainName: 'secondary.com', ValidationStatus: 'FAILED' },
+      ],
+    })
+  ).toThrow(/failed to validate for domain\(s\) secondary.com: \[PENDING_VALIDATION\]/)
+  expect(() => checkValidation({ ...certificate, Status: 'FAILED', FailureReason: 'CAA_ERROR' })).toThrow(
+    'Certificate arn:aws:acm:us-east-1:123456789012:certificate/abc failed to validate: [FAILED] CAA_ERROR'
+  )
+})
+
+test('validation records are re-applied only for renewals pending validation or failed', () => {
+  const record = { Name: '_abc.secondary.com.', Type: 'CNAME' as const, Value: '_def.acm-validations.aws.' }
+  const certificate = {
+    CertificateArn: 'arn:aws:acm:us-east-1:123456789012:certificate/abc',
+    RenewalSummary: {
+      RenewalStatus: 'PENDING_VALIDATION' as const,
+      UpdatedAt: new Date(),
+      DomainValidationOptions: [
+        { DomainName: 'test.example.com', ValidationStatus: 'SUCCESS' as const },
+        { DomainName: 'secondary.com', ValidationStatus: 'PENDING_VALIDATION' as const, ResourceRecord: record },
+      ],
+    },
+  }
+
+  expect(renewalValidationRecords(certificate)).toEqual([
+    { Name: record.Name, Type: record.Type, TTL: 30, ResourceRecords: [{ Value: record.Value }] },
+  ])
+  expect(
+    renewalValidationRecords({
+      ...certificate,
+      RenewalSummary: { ...certificate.RenewalSummary, RenewalStatus: 'PENDING_AUTO_RENEWAL' },
+    })
+  ).toEqual([])
+  expect(renewalValidationRecords({ CertificateArn: certificate.CertificateArn })).toEqual([])
+})
+
+test('lifecycle options are updated in place and certificate options request a new certificate', () => {
+  const properties = parseProperties(validProperties)
+
+  expect(shouldRequestNew(properties, { ...properties })).toBe(false)
+  expect(shouldRequestNew(properties, { ...properties, RemovalPolicy: 'retain' })).toBe(false)
+  expect(shouldRequestNew(properties, { ...properties, CleanupValidationRecords: 'false' })).toBe(false)
+  expect(shouldRequestNew(properties, { ...properties, DomainName: 'other.example.com' })).toBe(true)
+  expect(shouldRequestNew(properties, { ...properties, AlternativeDomainNames: ['secondary.com'] })).toBe(true)
+  expect(shouldRequestNew(properties, { ...properties, KeyAlgorithm: 'EC_prime256v1' })).toBe(true)
+})
+
+test('transparency logging is disabled by the stringified false', () => {
+  expect(transparencyLoggingPreference('true')).toBe('ENABLED')
+  expect(transparencyLoggingPreference('false')).toBe('DISABLED')
+})
+
+test('validation record attributes are left out when the response would be too large', async () => {
+  const certificateArn = 'arn:aws:acm:us-east-1:123456789012:certificate/11111111-2222-3333-4444-555555555555'
+  const domainNames = Array.from({ length: 40 }, (_, index) => `name${index}.example.com`)
+  const send = jest.spyOn(ACMClient.prototype, 'send').mockImplementation(async () => ({
+    Certificate: {
+      CertificateArn: certificateArn,
+      Status: 'ISSUED',
+      DomainValidationOptions: domainNames.map((domainName) => ({
+        DomainName: domainName,
+        ValidationStatus: 'SUCCESS',
+        ResourceRecord: {
+          Name: `_0123456789abcdef0123456789abcdef.${domainName}.`,
+          Type: 'CNAME',
+          Value: '_0123456789abcdef0123456789abcdef.abcdefghij.acm-validations.aws.',
+        },
+      })),
+    },
+  }))
+  const properties = (count: number) => ({
+    ...parseProperties(validProperties),
+    DomainName: domainNames[0],
+    AlternativeDomainNames: domainNames.slice(1, count),
+  })
+
+  try {
+    const data = await certificateData([certificateArn], properties(3))
+    expect(data['ValidationRecords.2.Name']).toBe('_0123456789abcdef0123456789abcdef.name2.example.com.')
+    expect(data['ValidationRecords.2.DomainName']).toBeUndefined()
+
+    const oversized = await certificateData([certificateArn], properties(40))
+    expect(oversized.Arn).toBe(certificateArn)
+    expect(Object.keys(oversized).filter((key) => key.startsWith('ValidationRecords.'))).toEqual([])
+  } finally {
+    send.mockRestore()
+  }
+})
+
+test('certificates of a resource with invalid properties are deleted best-effort', async () => {
+  const certificateArn = 'arn:aws:acm:us-east-1:123456789012:certificate/11111111-2222-3333-4444-555555555555'
+  const deleteEvent = (physicalResourceId: string): CloudFormationCustomResourceDeleteEvent => ({
+    RequestType: 'Delete',
+    ServiceToken: validProperties.ServiceToken,
+    ResponseURL: 'https://example.com/response',
+    StackId: 'arn:aws:cloudformation:eu-west-1:123456789012:stack/TestStack/id',
+    RequestId: 'request',
+    LogicalResourceId: 'Certificate',
+    ResourceType: 'AWS::CloudFormation::CustomResource',
+    PhysicalResourceId: physicalResourceId,
+    ResourceProperties: { ServiceToken: validProperties.ServiceToken, DomainName: 'test.example.com' },
+  })
+  const send = jest.spyOn(ACMClient.prototype, 'send').mockImplementation(async (command) => {
+    if (command instanceof DeleteCertificateCommand) {
+      throw new Error('Certificate is in use')
+    }
+    return { Certificate: { CertificateArn: certificateArn, Status: 'ISSUED' } }
+  })
+
+  try {
+    await expect(handler(deleteEvent(certificateArn))).resolves.toMatchObject({ PhysicalResourceId: certificateArn })
+    expect(send.mock.calls.filter(([command]) => command instanceof DeleteCertificateCommand)).toHaveLength(1)
+
+    send.mockClear()
+    await expect(handler(deleteEvent('failed-creation'))).resolves.toMatchObject({
+      PhysicalResourceId: 'failed-creation',
+    })
+    expect(send).not.toHaveBeenCalled()
+  } finally {
+    send.mockRestore()
+  }
+})
+
+test('failed validation deletes only the certificates requested by the event', async () => {
+  const liveArn = 'arn:aws:acm:us-east-1:123456789012:certificate/11111111-2222-3333-4444-555555555555'
+  const requestedArn = 'arn:aws:acm:us-east-1:123456789012:certificate/66666666-7777-8888-9999-000000000000'
+  const send = jest.spyOn(ACMClient.prototype, 'send').mockImplementation(async (command) => {
+    if (command instanceof DeleteCertificateCommand) {
+      return {}
+    }
+    return {
+      Certificate: { CertificateArn: (command.input as { CertificateArn: string }).CertificateArn, Status: 'EXPIRED' },
+    }
+  })
+  const isCompleteEvent = (requestedCertificateArns: string) =>
+    ({
+      RequestType: 'Update',
+      PhysicalResourceId: liveArn,
+      ResourceProperties: { ...validProperties, CleanupValidationRecords: 'false' },
+      RequestedCertificateArns: requestedCertificateArns,
+      CompletionCheck: 'Validation',
+    } as unknown as Parameters<typeof handler>[0])
+  const deletedArns = () =>
+    send.mock.calls.flatMap(([command]) =>
+      command instanceof DeleteCertificateCommand ? [command.input.CertificateArn] : []
+    )
+
+  try {
+    await expect(handler(isCompleteEvent(''))).rejects.toThrow(/failed to validate: \[EXPIRED\]/)
+    expect(deletedArns()).toEqual([])
+
+    await expect(handler(isCompleteEvent(requestedArn))).rejects.toThrow(/failed to validate/)
+    expect(deletedArns()).toEqual([requestedArn])
+  } finally {
+    send.mockRestore()
+  }
+})
+
+test('superseded certificates tracked by the certificate are cleaned up on update', async () => {
+  const certificateArn = 'arn:aws:acm:us-east-1:123456789012:certificate/11111111-2222-3333-4444-555555555555'
+  const predecessorArn = 'arn:aws:acm:us-east-1:123456789012:certificate/66666666-7777-8888-9999-000000000000'
+  const deletedArn = 'arn:aws:acm:us-east-1:123456789012:certificate/aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee'
+  const updateEvent: CloudFormationCustomResourceUpdateEvent = {
+    RequestType: 'Update',
+    ServiceToken: validProperties.ServiceToken,
+    ResponseURL: 'https://example.com/response',
+    StackId: 'arn:aws:cloudformation:eu-west-1:123456789012:stack/TestStack/id',
+    RequestId: 'request',
+    LogicalResourceId: 'Certificate',
+    ResourceType: 'AWS::CloudFormation::CustomResource',
+    PhysicalResourceId: certificateArn,
+    ResourceProperties: validProperties,
+    OldResourceProperties: validProperties,
+  }
+  const certificateTags: Record<string, string> = {
+    'DnsValidatedCertificate:Supersedes:66666666-7777-8888-9999-000000000000': predecessorArn,
+    'DnsValidatedCertificate:Supersedes:aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee': deletedArn,
+  }
+  const send = jest.spyOn(ACMClient.prototype, 'send').mockImplementation(async (command) => {
+    const arn = (command.input as { CertificateArn: string }).CertificateArn
+    if (command instanceof ListTagsForCertificateCommand) {
+      const tags =
+        arn === certificateArn ? certificateTags : { 'DnsValidatedCertificate:ReplacementRemovalPolicy': 'destroy' }
+      return { Tags: Object.entries(tags).map(([Key, Value]) => ({ Key, Value })) }
+    }
+    if (command instanceof DescribeCertificateCommand) {
+      if (arn === deletedArn) {
+        throw new ResourceNotFoundException({ message: 'Certificate not found', $metadata: {} })
+      }
+      // the replaced certificate was validated in a hosted zone that is no longer a validation hosted zone
+      const recordName = arn === predecessorArn ? '_abc.test.example.org.' : '_abc.test.example.com.'
+      return {
+        Certificate: {
+          CertificateArn: arn,
+          Status: 'ISSUED',
+          DomainValidationOptions: [
+            {
+              DomainName: 'test.example.com',
+              ValidationStatus: 'SUCCESS',
+              ResourceRecord: { Name: recordName, Type: 'CNAME', Value: '_xyz.acm-validations.aws.' },
+            },
+          ],
+        },
+      }
+    }
+    return {}
+  })
+  const sentInputs = (type: abstract new (...args: never[]) => unknown) =>
+    send.mock.calls.flatMap(([command]) => (command instanceof type ? [command.input] : []))
+
+  try {
+    await expect(handler(updateEvent)).resolves.toMatchObject({ PhysicalResourceId: certificateArn })
+    expect(sentInputs(DeleteCertificateCommand)).toEqual([{ CertificateArn: predecessorArn }])
+    expect(sentInputs(RemoveTagsFromCertificateCommand)).toEqual([
+      {
+        CertificateArn: certificateArn,
+        Tags: Object.keys(certificateTags).map((Key) => ({ Key })),
+      },
+    ])
+
+    // the cleanup is best-effort, failing to read the tracked certificates does not fail the update
+    send.mockClear()
+    send.mockImplementationOnce(async () => {
+      throw new Error('Rate exceeded')
+    })
+    await expect(handler(updateEvent)).resolves.toMatchObject({ PhysicalResourceId: certificateArn })
+    expect(sentInputs(DeleteCertificateCommand)).toEqual([])
+  } finally {
+    send.mockRestore()
+  }
+})
+
+test('reconcile session policies allow only the upserts of the restored records', () => {
+  const properties = parseProperties({
+    ...validProperties,
+    ValidationHostedZones: {
+      ...validProperties.ValidationHostedZones,
+      'secondary.com': {
+        ...validProperties.ValidationHostedZones['secondary.com'],
+        ValidationRecordSessionPolicy: 'true',
+      },
+    },
+  })
+  const records = [
+    { Name: '_abc.Secondary.com.', Type: 'CNAME', ResourceRecords: [{ Value: '_xyz.acm-validations.aws.' }] },
+  ]
+
+  const zones = withRecordSessionPolicies(properties, records).ValidationHostedZones
+  expect(zones['example.com'].ValidationSessionPolicy).toBeUndefined()
+  expect(JSON.parse(zones['secondary.com'].ValidationSessionPolicy!).Statement).toContainEqual({
+    Effect: 'Allow',
+    Action: 'route53:ChangeResourceRecordSets',
+    Resource: 'arn:aws:route53:::hostedzone/Z532DGDEDFS987654321',
+    Condition: {
+      'ForAllValues:StringEquals': {
+        'route53:ChangeResourceRecordSetsRecordTypes': ['CNAME'],
+        'route53:ChangeResourceRecordSetsActions': ['UPSERT'],
+        'route53:ChangeResourceRecordSetsNormalizedRecordNames': ['_abc.secondary.com'],
+      },
+    },
+  })
+  expect(() =>
+    parseProperties({
+      ...validProperties,
+      ValidationHostedZones: { 'example.com': { DomainName: 'example.com', ValidationRecordSessionPolicy: 'true' } },
+    })
+  ).toThrow(/requires ValidationRoleArn/)
+})
+
+test('replaced certificates pass on only the existing superseded certificates', async () => {
+  const certificateArn = 'arn:aws:acm:us-east-1:123456789012:certificate/11111111-2222-3333-4444-555555555555'
+  const successorArn = 'arn:aws:acm:us-east-1:123456789012:certificate/22222222-3333-4444-5555-666666666666'
+  const existingArn = 'arn:aws:acm:us-east-1:123456789012:certificate/66666666-7777-8888-9999-000000000000'
+  const deletedArn = 'arn:aws:acm:us-east-1:123456789012:certificate/aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee'
+  let failTagging = false
+  const send = jest.spyOn(ACMClient.prototype, 'send').mockImplementation(async (command) => {
+    const arn = (command.input as { CertificateArn: string }).CertificateArn
+    if (command instanceof ListTagsForCertificateCommand) {
+      return {
+        Tags: [
+          { Key: 'DnsValidatedCertificate:Supersedes:66666666-7777-8888-9999-000000000000', Value: existingArn },
+          { Key: 'DnsValidatedCertificate:Supersedes:aaaaaaaa-bbbb-cccc-dddd-eeeeeeeeeeee', Value: deletedArn },
+        ],
+      }
+    }
+    if (command instanceof DescribeCertificateCommand) {
+      if (arn === deletedArn) {
+        throw new ResourceNotFoundException({ message: 'Certificate not found', $metadata: {} })
+      }
+      return { Certificate: { CertificateArn: arn, Status: 'ISSUED' } }
+    }
+    if (command instanceof AddTagsToCertificateCommand && arn === successorArn && failTagging) {
+      throw new Error('Too many tags')
+    }
+    return {}
+  })
+  const successorTags = () =>
+    send.mock.calls.flatMap(([command]) =>
+      command instanceof AddTagsToCertificateCommand && command.input.CertificateArn === successorArn
+        ? [command.input.Tags]
+        : []
+    )
+
+  try {
+    await markSuperseded(new ACMClient({}), certificateArn, successorArn, parseProperties(validProperties))
+    expect(successorTags()).toEqual([
+      [
+        { Key: 'DnsValidatedCertificate:Supersedes:66666666-7777-8888-9999-000000000000', Value: existingArn },
+        { Key: 'DnsValidatedCertificate:Supersedes:11111111-2222-3333-4444-555555555555', Value: certificateArn },
+      ],
+    ])
+
+    // the successor was already requested, so failing to tag it does not fail the update
+    failTagging = true
+    await expect(
+      markSuperseded(new ACMClient({}), certificateArn, successorArn, parseProperties(validProperties))
+    ).resolves.toBeUndefined()
+  } finally {
+    send.mockRestore()
+  }
+})
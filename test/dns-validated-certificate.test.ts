@@ -1,7 +1,14 @@
 import * as cdk from 'aws-cdk-lib'
-import { Match, Template } from 'aws-cdk-lib/assertions'
+import { Annotations, Match, Template } from 'aws-cdk-lib/assertions'
+import * as acmpca from 'aws-cdk-lib/aws-acmpca'
+import * as certificatemanager from 'aws-cdk-lib/aws-certificatemanager'
+import * as cloudwatch_actions from 'aws-cdk-lib/aws-cloudwatch-actions'
+import * as events from 'aws-cdk-lib/aws-events'
+import * as iam from 'aws-cdk-lib/aws-iam'
+import * as lambda from 'aws-cdk-lib/aws-lambda'
 import * as route53 from 'aws-cdk-lib/aws-route53'
-import { DnsValidatedCertificate } from '../src/dns-validated-certificate'
+import * as sns from 'aws-cdk-lib/aws-sns'
+import { DnsValidatedCertificate, KeyAlgorithm } from '../src/dns-validated-certificate'
 
 test('DnsValidatedCertificate is created', () => {
   const app = new cdk.App()
@@ -68,3 +75,989 @@ test('Custom Resource depends on requestor function, role and default policy for
     })
   )
 })
+
+test('Each certificate owns a requestor with the logical ids of the original layout', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z53279245PYHBAN3YU2K',
+    zoneName: 'example.com',
+  })
+
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+  })
+  new DnsValidatedCertificate(stack, 'OtherCertificate', {
+    domainName: 'test.example.com',
+    validationHostedZones: [{ hostedZone }],
+    totalTimeout: cdk.Duration.hours(1),
+  })
+
+  const template = Template.fromStack(stack)
+
+  // the service token of a deployed custom resource cannot change
+  template.templateMatches({
+    Resources: {
+      CertificateRequestorFunction87A4ACC3: Match.objectLike({ Type: 'AWS::Lambda::Function' }),
+      CertificateRequestorProviderframeworkonEvent5C023901: Match.objectLike({ Type: 'AWS::Lambda::Function' }),
+      CertificateRequestorResourceF262A59D: Match.objectLike({
+        Properties: Match.objectLike({
+          ServiceToken: { 'Fn::GetAtt': ['CertificateRequestorProviderframeworkonEvent5C023901', 'Arn'] },
+        }),
+      }),
+    },
+  })
+  // requestor and provider framework functions for both, isComplete and onTimeout functions for the asynchronous one
+  template.resourceCountIs('AWS::Lambda::Function', 6)
+})
+
+test('Requestor function and provider can be shared by the certificates in a stack', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const mainHostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'MainHostedZone', {
+    hostedZoneId: 'Z53279245PYHBAN3YU2K',
+    zoneName: 'example.com',
+  })
+
+  const secondaryHostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'SecondaryHostedZone', {
+    hostedZoneId: 'Z73479245BAEBAN3YK4V',
+    zoneName: 'secondary.com',
+  })
+
+  new DnsValidatedCertificate(stack, 'MainCertificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone: mainHostedZone }],
+    sharedRequestor: true,
+  })
+
+  new DnsValidatedCertificate(stack, 'SecondaryCertificate', {
+    domainName: 'secondary.com',
+    validationHostedZones: [{ hostedZone: secondaryHostedZone }],
+    sharedRequestor: true,
+  })
+
+  const template = Template.fromStack(stack)
+
+  // requestor function and provider framework function
+  template.resourceCountIs('AWS::Lambda::Function', 2)
+  template.resourceCountIs('Custom::DnsValidatedCertificate', 2)
+
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: 'route53:ChangeResourceRecordSets',
+          Resource: 'arn:aws:route53:::hostedzone/Z53279245PYHBAN3YU2K',
+        }),
+        Match.objectLike({
+          Action: 'route53:ChangeResourceRecordSets',
+          Resource: 'arn:aws:route53:::hostedzone/Z73479245BAEBAN3YK4V',
+        }),
+      ]),
+    },
+  })
+
+  const certificates = template.findResources('Custom::DnsValidatedCertificate')
+  for (const certificate of Object.values(certificates)) {
+    expect(certificate.DependsOn).toEqual(
+      expect.arrayContaining([
+        expect.stringMatching(/RequestorFunction/),
+        expect.stringMatching(/DefaultPolicy/),
+        expect.stringMatching(/ServiceRole/),
+      ])
+    )
+  }
+})
+
+test('Total timeout enables asynchronous completion with the requestor as isComplete handler', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z53279245PYHBAN3YU2K',
+    zoneName: 'example.com',
+  })
+
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+    totalTimeout: cdk.Duration.hours(1),
+  })
+
+  const template = Template.fromStack(stack)
+
+  template.resourceCountIs('AWS::StepFunctions::StateMachine', 1)
+  template.hasResourceProperties('AWS::Lambda::Function', {
+    Environment: {
+      Variables: Match.objectLike({
+        ASYNCHRONOUS_COMPLETION: 'true',
+      }),
+    },
+  })
+})
+
+test('Total timeout is validated against the provider limits', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z53279245PYHBAN3YU2K',
+    zoneName: 'example.com',
+  })
+
+  expect(
+    () =>
+      new DnsValidatedCertificate(stack, 'LongCertificate', {
+        domainName: 'example.com',
+        validationHostedZones: [{ hostedZone }],
+        totalTimeout: cdk.Duration.hours(3),
+      })
+  ).toThrow(/exceeds 2 hours/)
+
+  expect(
+    () =>
+      new DnsValidatedCertificate(stack, 'UnevenCertificate', {
+        domainName: 'example.com',
+        validationHostedZones: [{ hostedZone }],
+        totalTimeout: cdk.Duration.seconds(100),
+      })
+  ).toThrow(/not a multiple of 30 seconds/)
+})
+
+test('Shared requestors are keyed by execution role and total timeout', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z53279245PYHBAN3YU2K',
+    zoneName: 'example.com',
+  })
+  const customResourceRole = new iam.Role(stack, 'CustomResourceRole', {
+    assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com'),
+  })
+
+  new DnsValidatedCertificate(stack, 'MainCertificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+    sharedRequestor: true,
+  })
+  new DnsValidatedCertificate(stack, 'OtherCertificate', {
+    domainName: 'other.example.com',
+    validationHostedZones: [{ hostedZone }],
+    sharedRequestor: true,
+  })
+  new DnsValidatedCertificate(stack, 'AsyncCertificate', {
+    domainName: 'test.example.com',
+    validationHostedZones: [{ hostedZone }],
+    totalTimeout: cdk.Duration.hours(1),
+    sharedRequestor: true,
+  })
+  new DnsValidatedCertificate(stack, 'RoleCertificate', {
+    domainName: 'role.example.com',
+    validationHostedZones: [{ hostedZone }],
+    customResourceRole,
+    sharedRequestor: true,
+  })
+
+  const template = Template.fromStack(stack)
+
+  const requestorFunctions = template.findResources('AWS::Lambda::Function', {
+    Properties: { Handler: 'index.handler', Timeout: 840 },
+  })
+  expect(Object.keys(requestorFunctions)).toHaveLength(3)
+  template.resourceCountIs('Custom::DnsValidatedCertificate', 4)
+})
+
+test('Phase timeouts are passed to the requestor in seconds', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z53279245PYHBAN3YU2K',
+    zoneName: 'example.com',
+  })
+
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+    validationRecordsTimeout: cdk.Duration.minutes(2),
+    recordSyncTimeout: cdk.Duration.minutes(1),
+    validationTimeout: cdk.Duration.minutes(10),
+    usageDrainTimeout: cdk.Duration.minutes(12),
+    maxPollingInterval: cdk.Duration.seconds(15),
+  })
+
+  const template = Template.fromStack(stack)
+
+  template.hasResourceProperties('Custom::DnsValidatedCertificate', {
+    ValidationRecordsTimeout: '120',
+    RecordSyncTimeout: '60',
+    ValidationTimeout: '600',
+    UsageDrainTimeout: '720',
+    MaxPollingInterval: '15',
+  })
+})
+
+test('Phase timeouts are validated against the requestor timeout', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z53279245PYHBAN3YU2K',
+    zoneName: 'example.com',
+  })
+
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+    validationTimeout: cdk.Duration.minutes(12),
+  })
+
+  expect(() => Template.fromStack(stack)).toThrow(/exceed the requestor timeout of 14 minutes/)
+
+  const otherApp = new cdk.App()
+  const otherStack = new cdk.Stack(otherApp, 'OtherStack', {})
+  const hostedZones = ['example.com', 'secondary.com', 'third.com'].map((zoneName, index) => ({
+    hostedZone: route53.HostedZone.fromHostedZoneAttributes(otherStack, `HostedZone${index}`, {
+      hostedZoneId: `Z53279245PYHBAN3YU2${index}`,
+      zoneName,
+    }),
+  }))
+  new DnsValidatedCertificate(otherStack, 'Certificate', {
+    domainName: 'example.com',
+    alternativeDomainNames: ['secondary.com', 'third.com'],
+    validationHostedZones: hostedZones,
+    recordSyncTimeout: cdk.Duration.minutes(2),
+    validationTimeout: cdk.Duration.minutes(4),
+  })
+
+  // three hosted zones take 6 minutes of record sync on top of 3 minutes for the records and 4 for validation, and the
+  // deletion of each takes 2 minutes after the usage drain
+  expect(() => Template.fromStack(otherStack)).toThrow(
+    /Usage drain timeout and record sync timeout for 3 hosted zone\(s\) and 1 region\(s\) exceed/
+  )
+
+  const defaultApp = new cdk.App()
+  const defaultStack = new cdk.Stack(defaultApp, 'DefaultStack', {})
+  new DnsValidatedCertificate(defaultStack, 'Certificate', {
+    domainName: 'example.com',
+    additionalCertificateRegions: ['eu-west-1'],
+    validationHostedZones: [
+      {
+        hostedZone: route53.HostedZone.fromHostedZoneAttributes(defaultStack, 'HostedZone', {
+          hostedZoneId: 'Z53279245PYHBAN3YU2K',
+          zoneName: 'example.com',
+        }),
+      },
+    ],
+  })
+
+  Annotations.fromStack(defaultStack).hasWarning(
+    '/DefaultStack/Certificate',
+    Match.stringLikeRegexp('validation timeout for 1 hosted zone\\(s\\) and 2 region\\(s\\) exceed')
+  )
+})
+
+test('Existing certificates can be adopted with matching tags', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z53279245PYHBAN3YU2K',
+    zoneName: 'example.com',
+  })
+
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+    adoptExisting: true,
+    adoptionTags: { Project: 'web' },
+  })
+
+  const template = Template.fromStack(stack)
+
+  template.hasResourceProperties('Custom::DnsValidatedCertificate', {
+    AdoptExisting: 'true',
+    AdoptionTags: { Project: 'web' },
+  })
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: Match.arrayWith(['acm:ListCertificates', 'acm:ListTagsForCertificate']),
+        }),
+      ]),
+    },
+  })
+})
+
+test('Email validation skips hosted zones and requires total timeout', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'test.example.com',
+    validationMethod: certificatemanager.ValidationMethod.EMAIL,
+    validationDomains: { 'test.example.com': 'example.com' },
+    totalTimeout: cdk.Duration.hours(2),
+  })
+
+  const template = Template.fromStack(stack)
+
+  template.hasResourceProperties('Custom::DnsValidatedCertificate', {
+    ValidationMethod: 'EMAIL',
+    ValidationDomains: { 'test.example.com': 'example.com' },
+    ValidationHostedZones: {},
+  })
+  const policies = template.findResources('AWS::IAM::Policy')
+  expect(JSON.stringify(policies)).not.toContain('route53:ChangeResourceRecordSets')
+
+  const otherApp = new cdk.App()
+  const otherStack = new cdk.Stack(otherApp, 'OtherStack', {})
+  new DnsValidatedCertificate(otherStack, 'Certificate', {
+    domainName: 'test.example.com',
+    validationMethod: certificatemanager.ValidationMethod.EMAIL,
+  })
+
+  expect(() => Template.fromStack(otherStack)).toThrow(/Email validation requires total timeout/)
+})
+
+test('DNS validation requires hosted zones', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+  })
+
+  expect(() => Template.fromStack(stack)).toThrow(/Validation hosted zones are required for DNS validation/)
+})
+
+test('Validation records can be written with a Lambda function', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const recordFunction = lambda.Function.fromFunctionAttributes(stack, 'RecordFunction', {
+    functionArn: 'arn:aws:lambda:us-east-1:123456789012:function:dns-records',
+    sameEnvironment: true,
+  })
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'test.example.com',
+    validationHostedZones: [
+      {
+        zoneName: 'example.com',
+        validationRecordFunction: recordFunction,
+      },
+    ],
+  })
+
+  const template = Template.fromStack(stack)
+
+  template.hasResourceProperties('Custom::DnsValidatedCertificate', {
+    ValidationHostedZones: {
+      'example.com': {
+        DomainName: 'example.com',
+        ValidationFunctionArn: 'arn:aws:lambda:us-east-1:123456789012:function:dns-records',
+      },
+    },
+  })
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: 'lambda:InvokeFunction',
+          Resource: Match.arrayWith(['arn:aws:lambda:us-east-1:123456789012:function:dns-records']),
+        }),
+      ]),
+    },
+  })
+  const policies = template.findResources('AWS::IAM::Policy')
+  expect(JSON.stringify(policies)).not.toContain('route53:ChangeResourceRecordSets')
+
+  const otherApp = new cdk.App()
+  const otherStack = new cdk.Stack(otherApp, 'OtherStack', {})
+  new DnsValidatedCertificate(otherStack, 'Certificate', {
+    domainName: 'test.example.com',
+    validationHostedZones: [
+      {
+        validationRecordFunction: lambda.Function.fromFunctionAttributes(otherStack, 'RecordFunction', {
+          functionArn: 'arn:aws:lambda:us-east-1:123456789012:function:dns-records',
+          sameEnvironment: true,
+        }),
+      },
+    ],
+  })
+
+  expect(() => Template.fromStack(otherStack)).toThrow(/requires zone name with validation record function/)
+})
+
+test('Validation role can be assumed through a role chain with a scoped session', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z53279245PYHBAN3YU2K',
+    zoneName: 'example.com',
+  })
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'test.example.com',
+    validationHostedZones: [
+      {
+        hostedZone,
+        validationRole: iam.Role.fromRoleArn(stack, 'ValidationRole', 'arn:aws:iam::222222222222:role/dns'),
+        validationRoleChain: [iam.Role.fromRoleArn(stack, 'HubRole', 'arn:aws:iam::111111111111:role/hub')],
+        validationSessionName: 'certificates',
+        validationSessionTags: { project: 'web' },
+        validationSessionPolicy: true,
+      },
+    ],
+  })
+
+  const template = Template.fromStack(stack)
+
+  template.hasResourceProperties('Custom::DnsValidatedCertificate', {
+    ValidationHostedZones: {
+      'example.com': Match.objectLike({
+        ValidationRoleArn: 'arn:aws:iam::222222222222:role/dns',
+        ValidationRoleChain: ['arn:aws:iam::111111111111:role/hub'],
+        ValidationSessionName: 'certificates',
+        ValidationSessionTags: { project: 'web' },
+        ValidationSessionPolicy: Match.anyValue(),
+      }),
+    },
+  })
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: ['sts:AssumeRole', 'sts:TagSession'],
+          Resource: 'arn:aws:iam::111111111111:role/hub',
+        }),
+      ]),
+    },
+  })
+  const resources = template.findResources('Custom::DnsValidatedCertificate')
+  const sessionPolicy = JSON.stringify(Object.values(resources)[0].Properties.ValidationHostedZones)
+  expect(sessionPolicy).toContain('route53:ChangeResourceRecordSets')
+  expect(sessionPolicy).toContain('route53:ChangeResourceRecordSetsNormalizedRecordNames')
+  const policies = template.findResources('AWS::IAM::Policy')
+  expect(JSON.stringify(policies)).not.toContain('route53:ChangeResourceRecordSets')
+
+  const otherApp = new cdk.App()
+  const otherStack = new cdk.Stack(otherApp, 'OtherStack', {})
+  new DnsValidatedCertificate(otherStack, 'Certificate', {
+    domainName: 'test.example.com',
+    validationHostedZones: [
+      {
+        hostedZone: route53.HostedZone.fromHostedZoneAttributes(otherStack, 'HostedZone', {
+          hostedZoneId: 'Z53279245PYHBAN3YU2K',
+          zoneName: 'example.com',
+        }),
+        validationSessionTags: { project: 'web' },
+      },
+    ],
+  })
+
+  expect(() => Template.fromStack(otherStack)).toThrow(/requires validation role with role chain or session options/)
+})
+
+test('Validation records are exposed as attributes and optional outputs', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z532DGDEDFS123456789',
+    zoneName: 'example.com',
+  })
+  const certificate = new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    alternativeDomainNames: ['*.example.com'],
+    validationHostedZones: [{ hostedZone }],
+    validationRecordOutputs: true,
+  })
+
+  expect(certificate.validationRecords.map((record) => record.domainName)).toEqual(['example.com', '*.example.com'])
+  expect(stack.resolve(certificate.validationRecords[1].value)).toEqual({
+    'Fn::GetAtt': [expect.stringMatching(/^CertificateRequestorResource/), 'ValidationRecords.1.Value'],
+  })
+
+  const template = Template.fromStack(stack)
+
+  template.hasOutput('*', {
+    Description: 'Validation record name for example.com',
+    Value: { 'Fn::GetAtt': [Match.anyValue(), 'ValidationRecords.0.Name'] },
+  })
+  template.hasOutput('*', {
+    Description: 'Validation record value for *.example.com',
+    Value: { 'Fn::GetAtt': [Match.anyValue(), 'ValidationRecords.1.Value'] },
+  })
+  Annotations.fromStack(stack).hasNoWarning('*', Match.stringLikeRegexp('custom resource response'))
+
+  const otherApp = new cdk.App()
+  const otherStack = new cdk.Stack(otherApp, 'OtherStack', {})
+  new DnsValidatedCertificate(otherStack, 'Certificate', {
+    domainName: 'example.com',
+    alternativeDomainNames: Array.from({ length: 15 }, (_, index) => `name${index}.example.com`),
+    validationHostedZones: [
+      {
+        hostedZone: route53.HostedZone.fromHostedZoneAttributes(otherStack, 'HostedZone', {
+          hostedZoneId: 'Z532DGDEDFS123456789',
+          zoneName: 'example.com',
+        }),
+      },
+    ],
+  })
+
+  Annotations.fromStack(otherStack).hasWarning(
+    '/OtherStack/Certificate',
+    Match.stringLikeRegexp('Validation records of 16 domain name\\(s\\) in 1 region\\(s\\) do not fit')
+  )
+})
+
+test('Certificate details are exposed as attributes', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z532DGDEDFS123456789',
+    zoneName: 'example.com',
+  })
+  const certificate = new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+  })
+
+  const attribute = (value: string) => stack.resolve(value)['Fn::GetAtt'][1]
+  expect(attribute(certificate.notAfter)).toBe('NotAfter')
+  expect(attribute(certificate.notBefore)).toBe('NotBefore')
+  expect(attribute(certificate.serial)).toBe('Serial')
+  expect(attribute(certificate.domainValidationStatus)).toBe('DomainValidationStatus')
+  expect(attribute(certificate.keyAlgorithm)).toBe('KeyAlgorithm')
+  expect(attribute(certificate.issuer)).toBe('Issuer')
+})
+
+test('Replacement removal policy and record reference regions are passed to the requestor', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z532DGDEDFS123456789',
+    zoneName: 'example.com',
+  })
+  const certificate = new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+  })
+  certificate.applyRemovalPolicy(cdk.RemovalPolicy.RETAIN)
+  new DnsValidatedCertificate(stack, 'OtherCertificate', {
+    domainName: 'other.example.com',
+    validationHostedZones: [{ hostedZone }],
+    removalPolicy: cdk.RemovalPolicy.RETAIN,
+    replacementRemovalPolicy: cdk.RemovalPolicy.DESTROY,
+    recordReferenceRegions: ['us-east-1'],
+  })
+
+  const template = Template.fromStack(stack)
+
+  template.hasResourceProperties('Custom::DnsValidatedCertificate', {
+    DomainName: 'example.com',
+    RemovalPolicy: 'retain',
+    ReplacementRemovalPolicy: 'retain',
+  })
+  template.hasResourceProperties('Custom::DnsValidatedCertificate', {
+    DomainName: 'other.example.com',
+    RemovalPolicy: 'retain',
+    ReplacementRemovalPolicy: 'destroy',
+    RecordReferenceRegions: ['us-east-1'],
+  })
+})
+
+test('Certificate can be deployed to additional regions', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', { env: { region: 'eu-west-1' } })
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z532DGDEDFS123456789',
+    zoneName: 'example.com',
+  })
+  const certificate = new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+    additionalCertificateRegions: ['us-east-1'],
+  })
+
+  expect(certificate.certificateArnForRegion('eu-west-1')).toBe(certificate.certificateArn)
+  expect(stack.resolve(certificate.certificateArnForRegion('us-east-1'))).toEqual({
+    'Fn::GetAtt': [expect.stringMatching(/^CertificateRequestorResource/), 'Arns.us-east-1'],
+  })
+  const regional = certificate.certificateForRegion('us-east-1')
+  expect(certificate.certificateForRegion('us-east-1')).toBe(regional)
+  expect(stack.resolve(regional.metricDaysToExpiry().toMetricConfig().metricStat?.region)).toBe('us-east-1')
+  expect(() => certificate.certificateArnForRegion('eu-north-1')).toThrow(/is not deployed to region eu-north-1/)
+
+  Template.fromStack(stack).hasResourceProperties('Custom::DnsValidatedCertificate', {
+    CertificateRegion: 'eu-west-1',
+    AdditionalCertificateRegions: ['us-east-1'],
+  })
+
+  const otherApp = new cdk.App()
+  const otherStack = new cdk.Stack(otherApp, 'OtherStack', { env: { region: 'eu-west-1' } })
+  new DnsValidatedCertificate(otherStack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [
+      {
+        hostedZone: route53.HostedZone.fromHostedZoneAttributes(otherStack, 'HostedZone', {
+          hostedZoneId: 'Z532DGDEDFS123456789',
+          zoneName: 'example.com',
+        }),
+      },
+    ],
+    additionalCertificateRegions: ['eu-west-1'],
+  })
+
+  expect(() => Template.fromStack(otherStack)).toThrow(/must be unique and different from the certificate region/)
+})
+
+test('Private certificate is requested from a certificate authority', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', { env: { region: 'eu-west-1' } })
+
+  const certificateAuthorityArn =
+    'arn:aws:acm-pca:eu-west-1:123456789012:certificate-authority/11111111-2222-3333-4444-555555555555'
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'internal.example.com',
+    certificateAuthority: acmpca.CertificateAuthority.fromCertificateAuthorityArn(
+      stack,
+      'CertificateAuthority',
+      certificateAuthorityArn
+    ),
+  })
+
+  const template = Template.fromStack(stack)
+  template.hasResourceProperties('Custom::DnsValidatedCertificate', {
+    DomainName: 'internal.example.com',
+    CertificateAuthorityArn: certificateAuthorityArn,
+    ValidationMethod: Match.absent(),
+    ValidationHostedZones: {},
+  })
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: 'acm-pca:IssueCertificate',
+          Resource: certificateAuthorityArn,
+        }),
+      ]),
+    },
+  })
+
+  const otherApp = new cdk.App()
+  const otherStack = new cdk.Stack(otherApp, 'OtherStack', { env: { region: 'eu-west-1' } })
+  new DnsValidatedCertificate(otherStack, 'Certificate', {
+    domainName: 'internal.example.com',
+    certificateAuthority: acmpca.CertificateAuthority.fromCertificateAuthorityArn(
+      otherStack,
+      'CertificateAuthority',
+      certificateAuthorityArn
+    ),
+    validationHostedZones: [
+      {
+        hostedZone: route53.HostedZone.fromHostedZoneAttributes(otherStack, 'HostedZone', {
+          hostedZoneId: 'Z532DGDEDFS123456789',
+          zoneName: 'example.com',
+        }),
+      },
+    ],
+  })
+
+  expect(() => Template.fromStack(otherStack)).toThrow(/cannot be used with private certificates/)
+})
+
+test('Key algorithm is passed to the requestor and validated', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', { env: { region: 'us-east-1' } })
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z532DGDEDFS123456789',
+    zoneName: 'example.com',
+  })
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+    keyAlgorithm: KeyAlgorithm.EC_PRIME256V1,
+  })
+
+  Template.fromStack(stack).hasResourceProperties('Custom::DnsValidatedCertificate', {
+    KeyAlgorithm: 'EC_prime256v1',
+  })
+
+  const otherApp = new cdk.App()
+  const otherStack = new cdk.Stack(otherApp, 'OtherStack', { env: { region: 'us-east-1' } })
+  new DnsValidatedCertificate(otherStack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [
+      {
+        hostedZone: route53.HostedZone.fromHostedZoneAttributes(otherStack, 'HostedZone', {
+          hostedZoneId: 'Z532DGDEDFS123456789',
+          zoneName: 'example.com',
+        }),
+      },
+    ],
+    keyAlgorithm: new KeyAlgorithm('RSA_4096'),
+  })
+
+  expect(() => Template.fromStack(otherStack)).toThrow(/Key algorithm RSA_4096 cannot be requested from ACM/)
+
+  const cloudFrontApp = new cdk.App()
+  const cloudFrontStack = new cdk.Stack(cloudFrontApp, 'CloudFrontStack', { env: { region: 'eu-west-1' } })
+  new DnsValidatedCertificate(cloudFrontStack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [
+      {
+        hostedZone: route53.HostedZone.fromHostedZoneAttributes(cloudFrontStack, 'HostedZone', {
+          hostedZoneId: 'Z532DGDEDFS123456789',
+          zoneName: 'example.com',
+        }),
+      },
+    ],
+    certificateRegion: 'us-east-1',
+    keyAlgorithm: KeyAlgorithm.EC_SECP384R1,
+  })
+
+  Annotations.fromStack(cloudFrontStack).hasWarning(
+    '/CloudFrontStack/Certificate',
+    Match.stringLikeRegexp('Key algorithm EC_secp384r1 is not supported by CloudFront')
+  )
+})
+
+test('Expiry alarm and notifications are created in the stack region', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', { env: { region: 'eu-west-1' } })
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z532DGDEDFS123456789',
+    zoneName: 'example.com',
+  })
+  const certificate = new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+  })
+  const topic = new sns.Topic(stack, 'Topic')
+  certificate.addExpiryAlarm('ExpiryAlarm', { threshold: 30, actions: [new cloudwatch_actions.SnsAction(topic)] })
+  certificate.addExpiryNotifications('ExpiryNotifications', topic)
+
+  const template = Template.fromStack(stack)
+  template.hasResourceProperties('AWS::CloudWatch::Alarm', {
+    MetricName: 'DaysToExpiry',
+    Threshold: 30,
+    ComparisonOperator: 'LessThanThreshold',
+    AlarmActions: [{ Ref: Match.stringLikeRegexp('^Topic') }],
+  })
+  template.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: {
+      source: ['aws.acm'],
+      'detail-type': Match.arrayWith(['ACM Certificate Renewal Action Required']),
+    },
+    Targets: [Match.objectLike({ Arn: { Ref: Match.stringLikeRegexp('^Topic') } })],
+  })
+  template.resourceCountIs('Custom::AWS', 0)
+})
+
+test('Expiry alarm and notifications work when the certificate is in another region', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', { env: { account: '123456789012', region: 'eu-west-1' } })
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z532DGDEDFS123456789',
+    zoneName: 'example.com',
+  })
+  const certificate = new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    certificateRegion: 'us-east-1',
+    validationHostedZones: [{ hostedZone }],
+  })
+  const alarm = certificate.addExpiryAlarm('ExpiryAlarm', {
+    actions: [
+      new cloudwatch_actions.SnsAction(
+        sns.Topic.fromTopicArn(stack, 'AlarmTopic', 'arn:aws:sns:us-east-1:123456789012:alarms')
+      ),
+    ],
+  })
+  certificate.addExpiryNotifications('ExpiryNotifications', new sns.Topic(stack, 'Topic'))
+
+  expect(alarm.alarmArn).toMatch(/^arn:\$\{Token\[AWS.Partition.\d+\]\}:cloudwatch:us-east-1:123456789012:alarm:/)
+
+  const template = Template.fromStack(stack)
+  template.resourceCountIs('AWS::CloudWatch::Alarm', 0)
+  // the alarm, the forwarding rule and its target are managed in the certificate region
+  template.resourceCountIs('Custom::AWS', 3)
+  template.hasResourceProperties('AWS::Events::Rule', {
+    EventPattern: { source: ['aws.acm'] },
+  })
+  template.hasResourceProperties('AWS::IAM::Role', {
+    AssumeRolePolicyDocument: {
+      Statement: [Match.objectLike({ Principal: { Service: 'events.amazonaws.com' } })],
+    },
+  })
+})
+
+test('Existing certificate can be imported with its region', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', { env: { region: 'eu-west-1' } })
+
+  const certificateArn = 'arn:aws:acm:us-east-1:123456789012:certificate/11111111-2222-3333-4444-555555555555'
+  const certificate = DnsValidatedCertificate.fromCertificateAttributes(stack, 'Certificate', { certificateArn })
+
+  expect(certificate.certificateArn).toBe(certificateArn)
+  expect(certificate.certificateRegion).toBe('us-east-1')
+  expect(certificate.metricDaysToExpiry().toMetricConfig().metricStat?.region).toBe('us-east-1')
+
+  const explicit = DnsValidatedCertificate.fromCertificateAttributes(stack, 'ExplicitCertificate', {
+    certificateArn: cdk.Fn.importValue('CertificateArn'),
+    certificateRegion: 'eu-north-1',
+  })
+  expect(explicit.certificateRegion).toBe('eu-north-1')
+
+  expect(() =>
+    DnsValidatedCertificate.fromCertificateAttributes(stack, 'RegionlessCertificate', {
+      certificateArn: 'arn:aws:acm::123456789012:certificate/11111111-2222-3333-4444-555555555555',
+    })
+  ).toThrow(/does not contain a region/)
+})
+
+test('Validation records are checked on schedule', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z532DGDEDFS123456789',
+    zoneName: 'example.com',
+  })
+  const certificate = new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+    reconcileSchedule: events.Schedule.rate(cdk.Duration.days(1)),
+  })
+
+  expect(certificate.metricValidationRecordDrift().metricName).toBe('ValidationRecordDrift')
+  expect(certificate.metricRenewalPendingValidation().metricName).toBe('RenewalPendingValidation')
+  expect(certificate.metricRenewalFailed().namespace).toBe('DnsValidatedCertificate')
+
+  const template = Template.fromStack(stack)
+  template.hasResourceProperties('AWS::Events::Rule', {
+    ScheduleExpression: 'rate(1 day)',
+    Targets: [
+      Match.objectLike({
+        Arn: { 'Fn::GetAtt': [Match.stringLikeRegexp('^CertificateRequestorFunction'), 'Arn'] },
+        Input: Match.anyValue(),
+      }),
+    ],
+  })
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: 'route53:ListResourceRecordSets',
+          Resource: 'arn:aws:route53:::hostedzone/Z532DGDEDFS123456789',
+        }),
+      ]),
+    },
+  })
+
+  const otherApp = new cdk.App()
+  const otherStack = new cdk.Stack(otherApp, 'OtherStack', {})
+  new DnsValidatedCertificate(otherStack, 'Certificate', {
+    domainName: 'example.com',
+    validationMethod: certificatemanager.ValidationMethod.EMAIL,
+    totalTimeout: cdk.Duration.hours(1),
+    reconcileSchedule: events.Schedule.rate(cdk.Duration.days(1)),
+  })
+
+  expect(() => Template.fromStack(otherStack)).toThrow(/Reconcile schedule can be used only with DNS validation/)
+})
+
+test('Reconcile schedule input fits the rule target with many cross-account zones', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const zoneNames = ['example.com', 'example.net', 'example.org', 'example.io', 'example.dev']
+  const validationRole = iam.Role.fromRoleArn(stack, 'ValidationRole', 'arn:aws:iam::222222222222:role/dns')
+  new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    alternativeDomainNames: zoneNames.flatMap((zoneName) => [`*.${zoneName}`, `api.${zoneName}`, `www.${zoneName}`]),
+    validationHostedZones: zoneNames.map((zoneName, index) => ({
+      hostedZone: route53.HostedZone.fromHostedZoneAttributes(stack, `HostedZone${index}`, {
+        hostedZoneId: `Z53279245PYHBAN3YU2${index}`,
+        zoneName,
+      }),
+      validationRole,
+      validationExternalId: 'domain-assume',
+      validationSessionPolicy: true,
+    })),
+    reconcileSchedule: events.Schedule.rate(cdk.Duration.days(1)),
+  })
+
+  const [rule] = Object.values(Template.fromStack(stack).findResources('AWS::Events::Rule'))
+  const input = JSON.stringify(rule.Properties.Targets[0].Input)
+  expect(input.length).toBeLessThan(8192)
+  expect(input).not.toContain('ValidationSessionPolicy')
+  expect(input).toContain('ValidationRecordSessionPolicy')
+})
+
+test('Certificate can be exported to and imported from SSM parameters', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', { env: { account: '123456789012', region: 'us-east-1' } })
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z532DGDEDFS123456789',
+    zoneName: 'example.com',
+  })
+  const certificate = new DnsValidatedCertificate(stack, 'Certificate', {
+    domainName: 'example.com',
+    validationHostedZones: [{ hostedZone }],
+  })
+  certificate.addSsmParameterExport('LocalExport', { parameterName: '/certificates/local' })
+  certificate.addSsmParameterExport('RemoteExport', {
+    parameterName: '/certificates/remote',
+    region: 'eu-west-1',
+    role: iam.Role.fromRoleArn(stack, 'ExportRole', 'arn:aws:iam::111111111111:role/ParameterWriter'),
+  })
+
+  const template = Template.fromStack(stack)
+  template.hasResourceProperties('AWS::SSM::Parameter', {
+    Name: '/certificates/local',
+    Type: 'StringList',
+  })
+  template.resourceCountIs('Custom::AWS', 1)
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: 'sts:AssumeRole',
+          Resource: 'arn:aws:iam::111111111111:role/ParameterWriter',
+        }),
+      ]),
+    },
+  })
+
+  const consumerApp = new cdk.App()
+  const consumerStack = new cdk.Stack(consumerApp, 'ConsumerStack', {
+    env: { account: '123456789012', region: 'eu-west-1' },
+  })
+  const local = DnsValidatedCertificate.fromSsmParameter(consumerStack, 'LocalCertificate', {
+    parameterName: '/certificates/remote',
+  })
+  const remote = DnsValidatedCertificate.fromSsmParameter(consumerStack, 'RemoteCertificate', {
+    parameterName: '/certificates/local',
+    region: 'us-east-1',
+  })
+
+  expect(consumerStack.resolve(local.certificateArn)).toEqual({ 'Fn::Select': [0, { Ref: expect.any(String) }] })
+  expect(consumerStack.resolve(remote.certificateRegion)).toEqual({
+    'Fn::Select': [1, { 'Fn::Split': [',', { 'Fn::GetAtt': [expect.any(String), 'Parameter.Value'] }] }],
+  })
+  Template.fromStack(consumerStack).resourceCountIs('Custom::AWS', 1)
+})
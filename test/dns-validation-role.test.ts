@@ -0,0 +1,83 @@
+import * as cdk from 'aws-cdk-lib'
+import { Match, Template } from 'aws-cdk-lib/assertions'
+import * as route53 from 'aws-cdk-lib/aws-route53'
+import { DnsValidationRole } from '../src/dns-validation-role'
+
+test('DnsValidationRole allows only the validation records of the domain names', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z53279245PYHBAN3YU2K',
+    zoneName: 'example.com',
+  })
+  new DnsValidationRole(stack, 'ValidationRole', {
+    hostedZones: [hostedZone],
+    domainNames: ['test.example.com'],
+    trustedAccounts: ['123456789012'],
+    externalId: 'domain-assume',
+    allowSessionTags: true,
+  })
+
+  const template = Template.fromStack(stack)
+
+  template.hasResourceProperties('AWS::IAM::Role', {
+    AssumeRolePolicyDocument: {
+      Statement: [
+        Match.objectLike({
+          Action: ['sts:AssumeRole', 'sts:TagSession'],
+          Condition: { StringEquals: { 'sts:ExternalId': 'domain-assume' } },
+          Principal: {
+            AWS: { 'Fn::Join': ['', ['arn:', { Ref: 'AWS::Partition' }, ':iam::123456789012:root']] },
+          },
+        }),
+      ],
+    },
+  })
+  template.hasResourceProperties('AWS::IAM::Policy', {
+    PolicyDocument: {
+      Statement: Match.arrayWith([
+        Match.objectLike({
+          Action: 'route53:ListResourceRecordSets',
+          Resource: 'arn:aws:route53:::hostedzone/Z53279245PYHBAN3YU2K',
+        }),
+        Match.objectLike({
+          Action: 'route53:ChangeResourceRecordSets',
+          Resource: 'arn:aws:route53:::hostedzone/Z53279245PYHBAN3YU2K',
+          Condition: Match.objectLike({
+            'ForAllValues:StringEquals': {
+              'route53:ChangeResourceRecordSetsRecordTypes': ['CNAME'],
+              'route53:ChangeResourceRecordSetsActions': ['UPSERT', 'DELETE'],
+            },
+          }),
+        }),
+      ]),
+    },
+  })
+  template.hasOutput('*', {
+    Value: { 'Fn::GetAtt': [Match.stringLikeRegexp('ValidationRole'), 'Arn'] },
+  })
+  template.hasCondition('*', {
+    'Fn::Equals': ['test', '*'],
+  })
+})
+
+test('DnsValidationRole domain names must belong to the hosted zones', () => {
+  const app = new cdk.App()
+  const stack = new cdk.Stack(app, 'TestStack', {})
+
+  const hostedZone = route53.HostedZone.fromHostedZoneAttributes(stack, 'HostedZone', {
+    hostedZoneId: 'Z53279245PYHBAN3YU2K',
+    zoneName: 'example.com',
+  })
+  new DnsValidationRole(stack, 'ValidationRole', {
+    hostedZones: [hostedZone],
+    domainNames: ['secondary.com'],
+    trustedAccounts: ['123456789012'],
+  })
+
+  expect(() => Template.fromStack(stack)).toThrow(/Domain secondary.com is not in any of the hosted zones/)
+  expect(
+    () => new DnsValidationRole(stack, 'UntrustedRole', { hostedZones: [hostedZone], trustedAccounts: [] })
+  ).toThrow(/requires at least one trusted account/)
+})
@@ -1,4 +1,11 @@
-import { orderBySignificance } from '../src/utils'
+import {
+  arnRegion,
+  backoffDelay,
+  diffTags,
+  isNameInZone,
+  orderBySignificance,
+  sharesValidationDomain,
+} from '../src/utils'
 
 test('domains are ordered by significance', () => {
   const domains = ['test.example.com', 'example.com', 'a.b.example.com']
@@ -9,3 +16,37 @@ test('domains are ordered by significance', () => {
   expect(ordered[1]).toBe('test.example.com')
   expect(ordered[2]).toBe('example.com')
 })
+
+test('tags are diffed to changed and removed', () => {
+  const oldTags = { Owner: 'team', Environment: 'dev', CostCenter: '1234' }
+  const newTags = { Owner: 'team', Environment: 'prod', Project: 'web' }
+
+  const { changed, removed } = diffTags(oldTags, newTags)
+
+  expect(changed).toEqual({ Environment: 'prod', Project: 'web' })
+  expect(removed).toEqual(['CostCenter'])
+})
+
+test('backoff delay grows exponentially up to the max interval', () => {
+  expect(backoffDelay(0, 30)).toBeGreaterThanOrEqual(150)
+  expect(backoffDelay(0, 30)).toBeLessThanOrEqual(200)
+  expect(backoffDelay(4, 30)).toBeGreaterThanOrEqual(2400)
+  expect(backoffDelay(20, 30)).toBe(30000)
+})
+
+test('names are matched to zones on label boundaries', () => {
+  expect(isNameInZone('example.com', 'example.com.')).toBe(true)
+  expect(isNameInZone('_abc.test.example.com.', 'example.com')).toBe(true)
+  expect(isNameInZone('*.example.com', 'example.com')).toBe(true)
+  expect(isNameInZone('notexample.com', 'example.com')).toBe(false)
+})
+
+test('region is parsed from an ARN', () => {
+  expect(arnRegion('arn:aws:acm:us-east-1:123456789012:certificate/abc')).toBe('us-east-1')
+})
+
+test('wildcard domains share the validation domain without the wildcard', () => {
+  expect(sharesValidationDomain(['example.com'], ['*.example.com', 'other.com'])).toBe(true)
+  expect(sharesValidationDomain(['www.example.com.'], ['www.example.com'])).toBe(true)
+  expect(sharesValidationDomain(['example.com'], ['www.example.com'])).toBe(false)
+})